@@ -0,0 +1,380 @@
+#!/usr/bin/env node
+/* eslint-disable no-console -- the CLI prints its results to stdout; logs go to stderr */
+import fs from 'fs';
+import path from 'path';
+import logger, { logToStderr } from './utils/logger';
+import { isMbox, parseMimeMessage, splitMbox } from './utils/mime';
+import { Money } from './utils/money';
+import { emailParser } from './services/emailParser';
+import { emailClassifier } from './services/emailClassifier';
+import { mailImporter } from './services/mailImporter';
+import { orderLedger } from './services/orderLedger';
+import { taxCalculator } from './services/taxCalculator';
+import { categorizer } from './services/categorizer';
+import { ynabClient } from './services/ynabClient';
+import { accountRouter } from './services/accountRouter';
+import { AmazonOrder, EmailType, EmailWebhookPayload, ProcessResult, TaxCalculation, YNABTransactionInput } from './types';
+
+const USAGE = `Usage: amazon-ynab <command> [options]
+
+Commands:
+  parse <file>                 Parse an email (.eml, .mbox or .html) and show the order breakdown
+  import <file|dir|mbox>...    Import emails into YNAB (directories are read file by file)
+  verify                       Check the YNAB connection, tax rules and category rules
+  ledger list                  List imported orders
+
+Options:
+  --dry-run    With import: show the transactions that would be created without posting them
+  --json       Print JSON instead of tables
+  --verbose    Show info logs (on stderr)`;
+
+interface CliOptions {
+  dryRun: boolean;
+  json: boolean;
+  verbose: boolean;
+}
+
+/** One email read from a file; mbox archives yield several */
+interface EmailSource {
+  label: string;
+  payload: EmailWebhookPayload;
+  classify: (payload: EmailWebhookPayload) => EmailType;
+}
+
+/** Thrown for invalid command lines, which exit with status 2 */
+class UsageError extends Error {}
+
+/**
+ * Command-line interface for parsing emails offline, importing saved emails and
+ * mbox exports (e.g. to backfill old orders), and inspecting the ledger
+ */
+async function main(argv: string[]): Promise<number> {
+  const args = argv.filter((arg) => !arg.startsWith('--'));
+  const flags = new Set(argv.filter((arg) => arg.startsWith('--')));
+  const unknownFlags = [...flags].filter((flag) => !['--dry-run', '--json', '--verbose', '--help'].includes(flag));
+  if (unknownFlags.length > 0) {
+    throw new UsageError(`Unknown option: ${unknownFlags.join(', ')}`);
+  }
+
+  const options: CliOptions = {
+    dryRun: flags.has('--dry-run'),
+    json: flags.has('--json'),
+    verbose: flags.has('--verbose'),
+  };
+  logToStderr(options.verbose ? 'info' : 'warn');
+
+  const [command, ...rest] = args;
+  if (!command || flags.has('--help')) {
+    console.log(USAGE);
+    return command || flags.has('--help') ? 0 : 2;
+  }
+
+  switch (command) {
+    case 'parse':
+      return parseCommand(rest, options);
+    case 'import':
+      return importCommand(rest, options);
+    case 'verify':
+      return verifyCommand();
+    case 'ledger':
+      if (rest[0] !== 'list') {
+        throw new UsageError('Usage: amazon-ynab ledger list');
+      }
+      return ledgerListCommand(options);
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+/**
+ * Parse emails without touching YNAB and print each order with its item breakdown
+ */
+async function parseCommand(files: string[], options: CliOptions): Promise<number> {
+  if (files.length !== 1) {
+    throw new UsageError('Usage: amazon-ynab parse <file>');
+  }
+
+  taxCalculator.initialize();
+
+  let failed = 0;
+  const output: unknown[] = [];
+  for (const source of readSources(files[0])) {
+    const type = source.classify(source.payload);
+    try {
+      const parsed = parseByType(type, source.payload);
+      const breakdown = type === 'order' ? calculateBreakdown(parsed as AmazonOrder) : null;
+
+      if (options.json) {
+        output.push({ source: source.label, type, parsed, breakdown });
+      } else {
+        printParsed(source.label, type, parsed, breakdown);
+      }
+    } catch (error) {
+      failed++;
+      const message = error instanceof Error ? error.message : String(error);
+      if (options.json) {
+        output.push({ source: source.label, type, error: message });
+      } else {
+        console.error(`${source.label}: ${message}`);
+      }
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(output.length === 1 ? output[0] : output, null, 2));
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Import every email found in the given files and directories, in the order given (a
+ * directory's files in name order)
+ */
+async function importCommand(paths: string[], options: CliOptions): Promise<number> {
+  if (paths.length === 0) {
+    throw new UsageError('Usage: amazon-ynab import <file|dir|mbox>... [--dry-run]');
+  }
+
+  // A dry run still reads categories and the budget currency from YNAB
+  taxCalculator.initialize();
+  accountRouter.initialize();
+  if (!(await ynabClient.verifyConnection())) {
+    console.error('Could not connect to YNAB, check your configuration');
+    return 1;
+  }
+  await categorizer.initialize();
+
+  const processOptions = options.dryRun ? { dryRun: true } : {};
+  const rows: { source: string; result: ProcessResult }[] = [];
+  for (const source of paths.flatMap((target) => listFiles(target)).flatMap((file) => readSources(file))) {
+    const result = await mailImporter.importPayload(source.payload, source.classify, processOptions);
+    rows.push({ source: source.label, result });
+    if (!options.json) {
+      console.log(`${source.label}: ${result.status} - ${result.message}`);
+      result.transactions?.forEach((transaction) => printTransaction(transaction));
+    }
+  }
+
+  const dryRun = rows.some(({ result }) => result.dryRun) || options.dryRun;
+
+  const counts = rows.reduce<Record<string, number>>((totals, { result }) => {
+    totals[result.status] = (totals[result.status] || 0) + 1;
+    return totals;
+  }, {});
+
+  if (options.json) {
+    console.log(JSON.stringify({ dryRun, counts, results: rows }, null, 2));
+  } else {
+    const summary = Object.entries(counts).map(([status, count]) => `${count} ${status}`);
+    console.log(`\n${dryRun ? 'Dry run: ' : ''}${rows.length} email(s): ${summary.join(', ') || 'none'}`);
+  }
+
+  return counts.error ? 1 : 0;
+}
+
+/**
+ * Check the YNAB connection and that the rules files load
+ */
+async function verifyCommand(): Promise<number> {
+  taxCalculator.initialize();
+  accountRouter.initialize();
+  if (!(await ynabClient.verifyConnection())) {
+    console.error('YNAB connection failed');
+    return 1;
+  }
+  await categorizer.initialize();
+
+  console.log(`YNAB connection OK (budget currency: ${(await ynabClient.getBudgetCurrency()) || 'unknown'})`);
+  const routes = accountRouter.listRoutes();
+  if (routes.length > 1) {
+    printTable(
+      ['Route', 'Budget', 'Account'],
+      routes.map((route) => [route.name, route.budgetId, route.accountId])
+    );
+  }
+  return 0;
+}
+
+/**
+ * List the imported orders, most recent first
+ */
+async function ledgerListCommand(options: CliOptions): Promise<number> {
+  const entries = orderLedger.list();
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return 0;
+  }
+
+  printTable(
+    ['Order', 'Order date', 'Total', 'Transactions', 'Items', 'Status'],
+    entries.map((entry) => [
+      entry.orderNumber,
+      (entry.orderDate || entry.createdAt).substring(0, 10),
+      entry.grandTotal.toFixed(2) + (entry.conversion ? ` ${entry.conversion.from}` : ''),
+      String(entry.transactionIds.length),
+      String((entry.items || []).filter((item) => !item.cancelled).length),
+      entry.cancelledAt ? 'cancelled' : entry.shipDate ? `shipped ${entry.shipDate}` : 'imported',
+    ])
+  );
+  console.log(`\n${entries.length} order(s)`);
+  return 0;
+}
+
+function parseByType(type: EmailType, payload: EmailWebhookPayload): unknown {
+  switch (type) {
+    case 'refund':
+      return emailParser.parseRefundEmail(payload.html, payload.text).refund;
+    case 'cancellation':
+      return emailParser.parseCancellationEmail(payload.html, payload.text);
+    case 'shipment':
+      return emailParser.parseShipmentEmail(payload.html, payload.text);
+    default:
+      return emailParser.parseEmail(payload.html, payload.text, payload.headers).order;
+  }
+}
+
+/**
+ * Split the order across its items the way a multi-item import would, when the email
+ * prices every item (otherwise prices are only known after fetching them on import)
+ */
+function calculateBreakdown(order: AmazonOrder): TaxCalculation | null {
+  if (order.items.some((item) => !item.price)) {
+    return null;
+  }
+  return taxCalculator.calculateItemTaxes(order.items, order.grandTotal, order.summary, order.deliveryAddress);
+}
+
+function printParsed(label: string, type: EmailType, parsed: unknown, breakdown: TaxCalculation | null): void {
+  console.log(`${label} (${type})`);
+
+  if (type !== 'order') {
+    console.log(JSON.stringify(parsed, null, 2));
+    return;
+  }
+
+  const order = parsed as AmazonOrder;
+  console.log(`Order ${order.orderNumber}, ${order.orderDate?.toISOString().substring(0, 10) || 'no date'}`);
+  console.log(`Grand total: ${order.grandTotal} ${order.currency || ''}`.trimEnd());
+  if (order.deliveryAddress) {
+    console.log(`Delivery address: ${order.deliveryAddress}`);
+  }
+  if (order.payments && order.payments.length > 0) {
+    console.log(`Paid with: ${order.payments.map((payment) => `${payment.label} ${payment.amount}`).join(', ')}`);
+  }
+
+  if (!breakdown) {
+    printTable(
+      ['Item', 'Qty', 'Price'],
+      order.items.map((item) => [item.name, String(item.quantity), item.price ? item.price.format() : '?'])
+    );
+    console.log('Not every item has a price in the email; missing prices are fetched from Amazon on import.\n');
+    return;
+  }
+
+  const format = (value?: { format(): string }) => (value ? value.format() : '0.00');
+  printTable(
+    ['Item', 'Qty', 'Price', 'Shipping', 'Discount', 'Tax', 'Gift card', 'Total'],
+    breakdown.items.map((item) => [
+      item.name,
+      String(item.quantity),
+      format(item.pricePerUnit),
+      format(item.shipping),
+      format(item.discount),
+      format(item.tax),
+      format(item.giftCard),
+      format(item.total),
+    ])
+  );
+
+  const { report } = breakdown;
+  console.log(
+    `Tax ${report.tax} (${report.source}), expected ${report.estimatedTax}${report.jurisdiction ? ` for ${report.jurisdiction}` : ''}\n`
+  );
+}
+
+/**
+ * Print a planned transaction and its splits, indented under the email it came from
+ */
+function printTransaction(transaction: YNABTransactionInput): void {
+  const amount = Money.fromMilliunits(transaction.amount).format();
+  const category = transaction.category_id ? ` [${transaction.category_id}]` : '';
+  console.log(
+    `  ${transaction.date}  ${amount.padStart(10)}  ${transaction.payee_name}: ${transaction.memo}${category} (${transaction.import_id})` +
+      (transaction.matchedTransactionId ? ` -> updates ${transaction.matchedTransactionId}` : '')
+  );
+  transaction.subtransactions?.forEach((split) => {
+    const splitCategory = split.category_id ? ` [${split.category_id}]` : '';
+    console.log(`    ${Money.fromMilliunits(split.amount).format().padStart(20)}  ${split.memo}${splitCategory}`);
+  });
+}
+
+function printTable(headers: string[], rows: string[][]): void {
+  const clip = (value: string) => (value.length > 50 ? `${value.substring(0, 47)}...` : value);
+  const cells = [headers, ...rows].map((row) => row.map(clip));
+  const widths = headers.map((_, i) => Math.max(...cells.map((row) => row[i].length)));
+  const line = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(line(cells[0]));
+  console.log(widths.map((width) => '-'.repeat(width)).join('  '));
+  cells.slice(1).forEach((row) => console.log(line(row)));
+}
+
+/**
+ * Expand a path to the files to import: a file as-is, a directory's files (not
+ * recursive, skipping hidden files) in name order
+ */
+function listFiles(target: string): string[] {
+  if (!fs.existsSync(target)) {
+    throw new UsageError(`No such file or directory: ${target}`);
+  }
+  if (!fs.statSync(target).isDirectory()) {
+    return [target];
+  }
+  return fs
+    .readdirSync(target)
+    .filter((name) => !name.startsWith('.'))
+    .sort()
+    .map((name) => path.join(target, name))
+    .filter((file) => fs.statSync(file).isFile());
+}
+
+/**
+ * Read the emails in a file. HTML files are a bare email body with no sender,
+ * so they are classified by content and default to an order, like POST /process.
+ */
+function readSources(file: string): EmailSource[] {
+  const raw = fs.readFileSync(file);
+
+  if (/\.html?$/i.test(file)) {
+    const html = raw.toString('utf-8');
+    return [
+      {
+        label: file,
+        payload: { html, text: '', from: '', to: '', subject: '' },
+        classify: (payload) => {
+          const type = emailClassifier.classifyContent(payload.subject, payload.html, payload.text);
+          return type === 'unknown' ? 'order' : type;
+        },
+      },
+    ];
+  }
+
+  const messages = isMbox(raw) ? splitMbox(raw) : [raw];
+  return messages.map((message, i) => ({
+    label: messages.length > 1 ? `${file}#${i + 1}` : file,
+    payload: parseMimeMessage(message),
+    classify: (payload) => emailClassifier.classify(payload),
+  }));
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
@@ -1,5 +1,5 @@
 import dotenv from 'dotenv';
-import { Config } from './types';
+import { AllocationStrategy, Config, ReviewRule } from './types';
 
 dotenv.config();
 
@@ -11,15 +11,126 @@ function getEnvVar(key: string, defaultValue?: string): string {
   return value || defaultValue!;
 }
 
+function getAllocationStrategy(key: string, defaultValue: AllocationStrategy): AllocationStrategy {
+  const value = getEnvVar(key, defaultValue);
+  if (!['proportional', 'per-item', 'first-item', 'equal'].includes(value)) {
+    throw new Error(`Invalid ${key}: ${value} (expected proportional, per-item, first-item or equal)`);
+  }
+  return value as AllocationStrategy;
+}
+
+function getReviewRules(): ReviewRule[] {
+  const valid: ReviewRule[] = ['all', 'fallback', 'fetched-prices', 'tax-mismatch', 'total-mismatch', 'uncategorized'];
+  const rules = (process.env.REVIEW_RULES || '')
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter(Boolean);
+  const invalid = rules.filter((rule) => !valid.includes(rule as ReviewRule));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid REVIEW_RULES: ${invalid.join(', ')} (expected ${valid.join(', ')})`);
+  }
+  return rules as ReviewRule[];
+}
+
+function getTimeZone(): string {
+  const timeZone = process.env.TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Invalid TIMEZONE: ${timeZone}`);
+  }
+  return timeZone;
+}
+
+/**
+ * Fail fast when a YNAB setting is missing. They are otherwise only read on first use.
+ */
+export function requireYnabConfig(): void {
+  getEnvVar('YNAB_API_TOKEN');
+  getEnvVar('YNAB_BUDGET_ID');
+  getEnvVar('YNAB_ACCOUNT_ID');
+}
+
 export const config: Config = {
   port: parseInt(getEnvVar('PORT', '3000'), 10),
   nodeEnv: getEnvVar('NODE_ENV', 'development'),
+  // Read on first use, so commands that never touch YNAB (e.g. cli parse) run without credentials
   ynab: {
-    apiToken: getEnvVar('YNAB_API_TOKEN'),
-    budgetId: getEnvVar('YNAB_BUDGET_ID'),
-    accountId: getEnvVar('YNAB_ACCOUNT_ID'),
+    get apiToken() {
+      return getEnvVar('YNAB_API_TOKEN');
+    },
+    get budgetId() {
+      return getEnvVar('YNAB_BUDGET_ID');
+    },
+    get accountId() {
+      return getEnvVar('YNAB_ACCOUNT_ID');
+    },
+    splitTransactions: getEnvVar('YNAB_SPLIT_TRANSACTIONS', 'false') === 'true',
+    giftCardAccountId: process.env.YNAB_GIFT_CARD_ACCOUNT_ID,
+    rewardPointsAccountId: process.env.YNAB_REWARD_POINTS_ACCOUNT_ID,
+  },
+  updateDateOnShipment: getEnvVar('UPDATE_DATE_ON_SHIPMENT', 'false') === 'true',
+  chargePerShipment: getEnvVar('CHARGE_PER_SHIPMENT', 'false') === 'true',
+  matching: {
+    enabled: getEnvVar('MATCH_EXISTING_TRANSACTIONS', 'false') === 'true',
+    windowDays: parseInt(getEnvVar('MATCH_WINDOW_DAYS', '5'), 10),
   },
+  dryRun: getEnvVar('DRY_RUN', 'false') === 'true',
   webhookSecret: process.env.WEBHOOK_SECRET,
   defaultTaxRate: parseFloat(getEnvVar('DEFAULT_TAX_RATE', '0.08')),
   logLevel: getEnvVar('LOG_LEVEL', 'info'),
+  timezone: getTimeZone(),
+  dataDir: getEnvVar('DATA_DIR', './data'),
+  categoryRulesFile: process.env.CATEGORY_RULES_FILE,
+  taxRulesFile: process.env.TAX_RULES_FILE,
+  routesFile: process.env.ROUTES_FILE,
+  exchangeRates: {
+    provider: getEnvVar('EXCHANGE_RATE_PROVIDER', 'fixed') as 'fixed' | 'frankfurter',
+    ratesFile: process.env.EXCHANGE_RATES_FILE,
+  },
+  gmail: {
+    clientId: process.env.GMAIL_CLIENT_ID,
+    clientSecret: process.env.GMAIL_CLIENT_SECRET,
+    refreshToken: process.env.GMAIL_REFRESH_TOKEN,
+    labelId: process.env.GMAIL_LABEL_ID,
+    senders: (process.env.GMAIL_SENDERS || '')
+      .split(',')
+      .map((sender) => sender.trim().toLowerCase())
+      .filter(Boolean),
+  },
+  imap: {
+    host: process.env.IMAP_HOST,
+    port: parseInt(getEnvVar('IMAP_PORT', '993'), 10),
+    secure: getEnvVar('IMAP_SECURE', 'true') === 'true',
+    user: process.env.IMAP_USER,
+    password: process.env.IMAP_PASSWORD,
+    mailbox: getEnvVar('IMAP_MAILBOX', 'INBOX'),
+    processedFolder: process.env.IMAP_PROCESSED_FOLDER,
+    pollIntervalMinutes: parseFloat(getEnvVar('IMAP_POLL_INTERVAL_MINUTES', '5')),
+  },
+  categoryLearning: {
+    threshold: parseFloat(getEnvVar('CATEGORY_LEARNING_THRESHOLD', '0.6')),
+    syncIntervalMinutes: parseInt(getEnvVar('CATEGORY_SYNC_INTERVAL_MINUTES', '60'), 10),
+  },
+  priceCatalog: {
+    maxAgeDays: parseFloat(getEnvVar('PRICE_CACHE_DAYS', '30')),
+  },
+  priceFetcher: {
+    concurrency: Math.max(1, parseInt(getEnvVar('PRICE_FETCH_CONCURRENCY', '2'), 10)),
+    minIntervalMs: parseInt(getEnvVar('PRICE_FETCH_INTERVAL_MS', '1000'), 10),
+    timeoutMs: parseInt(getEnvVar('PRICE_FETCH_TIMEOUT_MS', '30000'), 10),
+    retries: parseInt(getEnvVar('PRICE_FETCH_RETRIES', '2'), 10),
+  },
+  allocation: {
+    shipping: getAllocationStrategy('ALLOCATE_SHIPPING', 'proportional'),
+    discounts: getAllocationStrategy('ALLOCATE_DISCOUNTS', 'per-item'),
+    giftCard: getAllocationStrategy('ALLOCATE_GIFT_CARD', 'proportional'),
+    tax: getAllocationStrategy('ALLOCATE_TAX', 'proportional'),
+  },
+  review: {
+    rules: getReviewRules(),
+    amountThreshold: process.env.REVIEW_AMOUNT_THRESHOLD
+      ? parseFloat(process.env.REVIEW_AMOUNT_THRESHOLD)
+      : undefined,
+  },
 };
@@ -1,10 +1,22 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import bodyParser from 'body-parser';
-import { config } from './config';
+import { config, requireYnabConfig } from './config';
 import logger from './utils/logger';
 import { orderProcessor } from './services/orderProcessor';
 import { ynabClient } from './services/ynabClient';
-import { EmailWebhookPayload } from './types';
+import { categorizer } from './services/categorizer';
+import { taxCalculator } from './services/taxCalculator';
+import { categoryLearner } from './services/categoryLearner';
+import { emailClassifier } from './services/emailClassifier';
+import { gmailWatcher } from './services/gmailWatcher';
+import { imapPoller } from './services/imapPoller';
+import { mailImporter } from './services/mailImporter';
+import { reviewQueue, ReviewError } from './services/reviewQueue';
+import { accountRouter } from './services/accountRouter';
+import { priceCatalog } from './services/priceCatalog';
+import { priceFetcher } from './services/priceFetcher';
+import { getMessageId } from './utils/mime';
+import { EmailWebhookPayload, ProcessOptions, ProcessResult, ReviewStatus } from './types';
 
 const app = express();
 
@@ -39,18 +51,17 @@ app.post('/webhook/email', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid payload' });
     }
 
-    // Verify this is an Amazon order email
-    if (!isAmazonOrderEmail(payload)) {
-      logger.info('Email is not an Amazon order confirmation, ignoring');
-      return res.json({ status: 'ignored', message: 'Not an Amazon order email' });
-    }
+    // Classify and process the email (skipped if its Message-ID was already processed)
+    const result = await mailImporter.importPayload(payload, undefined, readProcessOptions(req));
 
-    // Process the order asynchronously
-    const result = await orderProcessor.processOrder(payload.html, payload.text);
+    if (result.status === 'duplicate' || result.status === 'ignored' || result.status === 'pending') {
+      logger.info(result.message);
+      return res.json({ status: result.status, message: result.message });
+    }
 
     if (result.success) {
       logger.info(`Order processed successfully: ${result.message}`);
-      return res.json({ status: 'success', message: result.message });
+      return res.json({ status: 'success', message: result.message, ...dryRunFields(result) });
     } else {
       logger.error(`Order processing failed: ${result.message}`);
       return res.status(500).json({ status: 'error', message: result.message });
@@ -64,38 +75,104 @@ app.post('/webhook/email', async (req: Request, res: Response) => {
   }
 });
 
-// Gmail-style webhook (for Gmail API push notifications)
-app.post('/webhook/gmail', async (_req: Request, res: Response) => {
-  try {
-    logger.info('Received Gmail push notification');
-
-    // Acknowledge receipt immediately
-    res.status(200).send();
+// Gmail API push notifications (delivered by a Cloud Pub/Sub push subscription)
+app.post('/webhook/gmail', (req: Request, res: Response) => {
+  logger.info('Received Gmail push notification');
 
-    // In a real implementation, you would:
-    // 1. Parse the Gmail push notification
-    // 2. Use Gmail API to fetch the full email
-    // 3. Process it with orderProcessor
+  // Pub/Sub push endpoints can't send headers, so the secret goes in the URL
+  if (config.webhookSecret && req.query.secret !== config.webhookSecret) {
+    logger.warn('Unauthorized Gmail push request - invalid secret');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
 
-    logger.info('Gmail webhook processing not fully implemented');
-  } catch (error) {
-    logger.error('Error handling Gmail webhook', error);
+  const notification = gmailWatcher.parseNotification(req.body);
+  if (!notification) {
+    logger.error('Invalid Gmail push notification');
+    return res.status(400).json({ error: 'Invalid payload' });
   }
+
+  // Acknowledge receipt immediately; Pub/Sub redelivers if we take too long.
+  // A lost notification is caught up by the next one, since processing resumes
+  // from the last processed history ID.
+  gmailWatcher
+    .handleNotification(notification)
+    .then((results) =>
+      logger.info(`Gmail notification for history ${notification.historyId} processed ${results.length} email(s)`)
+    )
+    .catch((error) => logger.error('Error handling Gmail push notification', error));
+
+  return res.status(204).send();
 });
 
+// Raw email import: a single RFC 822 message (.eml) or an mbox archive as the request body
+app.post(
+  '/process/raw',
+  requireSecret,
+  bodyParser.raw({ type: () => true, limit: '50mb' }),
+  async (req: Request, res: Response) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Missing raw email content' });
+      }
+
+      const results = await mailImporter.importRaw(req.body, readProcessOptions(req));
+
+      if (results.length === 1) {
+        const [result] = results;
+        return res.status(result.status === 'error' ? 500 : 200).json({
+          status: result.status,
+          message: result.message,
+          ...dryRunFields(result),
+        });
+      }
+
+      // mbox archive: report each message
+      const failed = results.filter((result) => result.status === 'error').length;
+      return res.json({
+        status: 'success',
+        message: `Processed ${results.length} message(s), ${failed} failed`,
+        results: results.map((result) => ({
+          status: result.status,
+          message: result.message,
+          orderNumber: result.orderNumber,
+          ...dryRunFields(result),
+        })),
+      });
+    } catch (error) {
+      logger.error('Error importing raw email', error);
+      return res.status(500).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
 // Manual processing endpoint (for testing or manual triggers)
 app.post('/process', async (req: Request, res: Response) => {
   try {
-    const { html, text } = req.body;
+    const { html, text, subject, headers, dryRun, to, from } = req.body;
 
     if (!html && !text) {
       return res.status(400).json({ error: 'Missing html or text content' });
     }
 
-    const result = await orderProcessor.processOrder(html || '', text || '');
+    // Default to an order when the content can't be classified
+    const emailType = emailClassifier.classifyContent(subject || '', html || '', text || '');
+    const result = await orderProcessor.processEmail(
+      emailType === 'unknown' ? 'order' : emailType,
+      html || '',
+      text || '',
+      headers,
+      { ...(typeof dryRun === 'boolean' ? { dryRun } : readProcessOptions(req)), to, from }
+    );
+
+    if (result.status === 'duplicate' || result.status === 'ignored' || result.status === 'pending') {
+      return res.json({ status: result.status, message: result.message });
+    }
 
     if (result.success) {
-      return res.json({ status: 'success', message: result.message });
+      return res.json({ status: 'success', message: result.message, ...dryRunFields(result) });
     } else {
       return res.status(500).json({ status: 'error', message: result.message });
     }
@@ -108,59 +185,201 @@ app.post('/process', async (req: Request, res: Response) => {
   }
 });
 
+// Review queue: orders held back by REVIEW_RULES wait here until approved or rejected
+app.get('/reviews', requireSecret, (req: Request, res: Response) => {
+  const status = (req.query.status as ReviewStatus | 'all' | undefined) || 'pending';
+  if (!['pending', 'approved', 'rejected', 'all'].includes(status)) {
+    return res.status(400).json({ error: `Invalid status: ${status}` });
+  }
+  return res.json({ reviews: reviewQueue.list(status) });
+});
+
+app.get('/reviews/:orderNumber', requireSecret, (req: Request, res: Response) => {
+  const review = reviewQueue.get(req.params.orderNumber);
+  if (!review) {
+    return res.status(404).json({ error: `No review for order ${req.params.orderNumber}` });
+  }
+  return res.json(review);
+});
+
+app.patch('/reviews/:orderNumber', requireSecret, (req: Request, res: Response) => {
+  return handleReview(req.params.orderNumber, res, () =>
+    reviewQueue.edit(req.params.orderNumber, req.body)
+  );
+});
+
+app.post('/reviews/:orderNumber/approve', requireSecret, async (req: Request, res: Response) => {
+  return handleReview(req.params.orderNumber, res, async () => {
+    const result = await reviewQueue.approve(req.params.orderNumber);
+    if (!result.success) {
+      res.status(500);
+    }
+    return { status: result.status, message: result.message, transactionIds: result.transactionIds };
+  });
+});
+
+app.post('/reviews/:orderNumber/reject', requireSecret, (req: Request, res: Response) => {
+  return handleReview(req.params.orderNumber, res, () => reviewQueue.reject(req.params.orderNumber));
+});
+
+// Price catalog: products seen in orders, with their price history
+app.get('/catalog', requireSecret, (_req: Request, res: Response) => {
+  const products = priceCatalog.list().map(({ history: _history, ...product }) => product);
+  return res.json({ products });
+});
+
+app.get('/catalog/:asin', requireSecret, (req: Request, res: Response) => {
+  const product = priceCatalog.get(req.params.asin);
+  if (!product) {
+    return res.status(404).json({ error: `No catalog entry for ${req.params.asin}` });
+  }
+  return res.json(product);
+});
+
+/**
+ * Require the webhook secret (X-Webhook-Secret header or ?secret=) when one is configured
+ */
+function requireSecret(req: Request, res: Response, next: NextFunction) {
+  if (config.webhookSecret) {
+    const providedSecret = req.headers['x-webhook-secret'] || req.query.secret;
+    if (providedSecret !== config.webhookSecret) {
+      logger.warn(`Unauthorized request to ${req.path} - invalid secret`);
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+  }
+  return next();
+}
+
+/**
+ * Run an action on an order's review and send its outcome. Reviews that are no
+ * longer pending and invalid edits are answered with 400.
+ */
+async function handleReview(
+  orderNumber: string,
+  res: Response,
+  action: () => unknown | Promise<unknown>
+) {
+  if (!reviewQueue.get(orderNumber)) {
+    return res.status(404).json({ error: `No review for order ${orderNumber}` });
+  }
+
+  try {
+    return res.json(await action());
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error('Error handling review', error);
+    return res.status(500).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Read per-request processing options: ?dryRun=true or an X-Dry-Run header.
+ * Without either, the DRY_RUN setting applies.
+ */
+function readProcessOptions(req: Request): ProcessOptions {
+  const value = req.query.dryRun ?? req.headers['x-dry-run'];
+  if (typeof value !== 'string') {
+    return {};
+  }
+  return { dryRun: value === 'true' || value === '1' };
+}
+
+/**
+ * Response fields for a dry run: the transactions that would have been created
+ */
+function dryRunFields(result: ProcessResult): { dryRun?: true; transactions?: ProcessResult['transactions'] } {
+  return result.dryRun ? { dryRun: true, transactions: result.transactions } : {};
+}
+
 /**
  * Parse webhook payload from various email service providers
  */
-function parseWebhookPayload(body: any): EmailWebhookPayload | null {
+function parseWebhookPayload(body: unknown): EmailWebhookPayload | null {
+  const payload = readWebhookPayload(body);
+  if (payload?.headers) {
+    payload.messageId = getMessageId(payload.headers);
+  }
+  return payload;
+}
+
+function readWebhookPayload(body: unknown): EmailWebhookPayload | null {
+  if (!isRecord(body)) {
+    return null;
+  }
+
   // SendGrid Inbound Parse format
   if (body.html && body.from && body.subject) {
     return {
-      html: body.html,
-      text: body.text || '',
-      from: body.from,
-      to: body.to || '',
-      subject: body.subject,
-      headers: body.headers,
+      html: asString(body.html),
+      text: asString(body.text),
+      from: asString(body.from),
+      to: asString(body.to),
+      subject: asString(body.subject),
+      headers: parseHeaders(body.headers),
     };
   }
 
   // Mailgun format
   if (body['body-html'] && body.sender && body.subject) {
     return {
-      html: body['body-html'],
-      text: body['body-plain'] || '',
-      from: body.sender,
-      to: body.recipient || '',
-      subject: body.subject,
+      html: asString(body['body-html']),
+      text: asString(body['body-plain']),
+      from: asString(body.sender),
+      to: asString(body.recipient),
+      subject: asString(body.subject),
+      headers: body.Date ? { Date: asString(body.Date) } : undefined,
     };
   }
 
   // Generic format
-  if (body.email) {
+  if (isRecord(body.email)) {
     const email = body.email;
     return {
-      html: email.html || '',
-      text: email.text || '',
-      from: email.from || '',
-      to: email.to || '',
-      subject: email.subject || '',
+      html: asString(email.html),
+      text: asString(email.text),
+      from: asString(email.from),
+      to: asString(email.to),
+      subject: asString(email.subject),
+      headers: parseHeaders(email.headers) || (email.date ? { Date: asString(email.date) } : undefined),
     };
   }
 
   return null;
 }
 
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
 /**
- * Check if email is an Amazon order confirmation
+ * Normalize email headers: SendGrid sends them as one raw header block
  */
-function isAmazonOrderEmail(payload: EmailWebhookPayload): boolean {
-  const subject = payload.subject.toLowerCase();
-  const from = payload.from.toLowerCase();
+function parseHeaders(headers: unknown): Record<string, string> | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof headers !== 'string') {
+    return headers as Record<string, string>;
+  }
 
-  return (
-    from.includes('amazon.com') &&
-    (subject.includes('order') || subject.includes('ordered:'))
-  );
+  const parsed: Record<string, string> = {};
+  // Unfold continuation lines, then split "Name: value" pairs
+  for (const line of headers.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      parsed[line.substring(0, separator).trim()] = line.substring(separator + 1).trim();
+    }
+  }
+  return parsed;
 }
 
 /**
@@ -168,6 +387,13 @@ function isAmazonOrderEmail(payload: EmailWebhookPayload): boolean {
  */
 async function startServer() {
   try {
+    // The server always posts to YNAB, so missing credentials abort startup
+    requireYnabConfig();
+
+    // Load tax rates and routes first; an invalid rules file aborts startup
+    taxCalculator.initialize();
+    accountRouter.initialize();
+
     // Start Express server first
     app.listen(config.port, () => {
       logger.info(`Server started on port ${config.port}`);
@@ -175,7 +401,7 @@ async function startServer() {
       logger.info(`Webhook endpoint: POST http://localhost:${config.port}/webhook/email`);
     });
 
-    // Verify YNAB connection after server starts
+    // Verify YNAB connection (and every route's budget and account) after server starts
     logger.info('Verifying YNAB connection...');
     const connected = await ynabClient.verifyConnection();
 
@@ -184,6 +410,16 @@ async function startServer() {
       logger.error('Server is running but will not be able to create transactions until YNAB credentials are configured.');
     } else {
       logger.info('YNAB connection verified successfully!');
+
+      // Resolve category rules against the budgets; unknown categories abort startup
+      await categorizer.initialize();
+
+      // Learn from how previously imported transactions were categorized
+      categoryLearner.start();
+
+      // Read emails from a mailbox when no webhook delivers them
+      imapPoller.start();
+
       logger.info('Ready to receive Amazon order emails!');
     }
   } catch (error) {
@@ -193,15 +429,16 @@ async function startServer() {
 }
 
 // Handle graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
+async function shutdown(signal: string) {
+  logger.info(`${signal} received, shutting down gracefully`);
+  imapPoller.stop();
+  categoryLearner.stop();
+  await priceFetcher.close();
   process.exit(0);
-});
+}
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  process.exit(0);
-});
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
 
 // Start the server
 startServer();
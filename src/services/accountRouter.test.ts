@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import logger from '../utils/logger';
+import { Money } from '../utils/money';
+import { AccountRouter } from './accountRouter';
+import { RoutesConfig } from '../types';
+
+const ROUTES: RoutesConfig = {
+  routes: [
+    {
+      name: 'Business',
+      budgetId: 'business-budget',
+      accountId: 'business-card',
+      match: { to: ['business@example.com'], paymentLast4: ['9999'] },
+    },
+    { name: 'Amex', accountId: 'amex', match: { paymentLast4: ['1234'] } },
+    { name: 'Partner', accountId: 'partner-card', match: { deliveryAddress: ['Jane Doe'] } },
+  ],
+};
+
+describe('AccountRouter', () => {
+  let dir: string;
+  let router: AccountRouter;
+
+  const writeRoutes = (routes: unknown) => {
+    const file = path.join(dir, 'routes.json');
+    fs.writeFileSync(file, JSON.stringify(routes));
+    return file;
+  };
+
+  beforeAll(() => {
+    logger.silent = true;
+    process.env.YNAB_BUDGET_ID ??= 'budget-id';
+    process.env.YNAB_ACCOUNT_ID ??= 'account-id';
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'account-router-'));
+    router = new AccountRouter();
+    router.initialize(writeRoutes(ROUTES));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('resolve', () => {
+    it('uses the first rule whose conditions all hold', () => {
+      expect(router.resolve({ to: 'Business@Example.com', paymentLast4: '9999' })).toMatchObject({
+        name: 'Business',
+        budgetId: 'business-budget',
+        accountId: 'business-card',
+      });
+      expect(router.resolve({ to: 'business@example.com', paymentLast4: '1234' }).name).toBe(
+        'Amex'
+      );
+    });
+
+    it('matches card numbers exactly and other fields as substrings', () => {
+      expect(router.resolve({ paymentLast4: '12345' }).name).toBe('default');
+      expect(router.resolve({ deliveryAddress: 'JANE DOE, 1 Main St' }).name).toBe('Partner');
+    });
+
+    it('posts orders matching no rule to the default budget and account', () => {
+      expect(router.resolve({ to: 'me@example.com' })).toMatchObject({
+        name: 'default',
+        budgetId: process.env.YNAB_BUDGET_ID,
+        accountId: process.env.YNAB_ACCOUNT_ID,
+      });
+    });
+  });
+
+  describe('forPayment', () => {
+    const card = (last4: string) => ({
+      type: 'card' as const,
+      label: `Visa ending in ${last4}`,
+      last4,
+      amount: Money.fromDecimal(5),
+    });
+
+    it('moves a payment by another card to the account that card is routed to', () => {
+      const route = router.resolve({});
+      expect(router.forPayment(card('1234'), route, {})).toBe('amex');
+    });
+
+    it('keeps a payment with the order when its card goes to another budget', () => {
+      const route = router.resolve({});
+      expect(
+        router.forPayment(card('9999'), route, { to: 'business@example.com' })
+      ).toBeUndefined();
+    });
+
+    it("keeps a payment with the order when it's the order's own account", () => {
+      const route = router.resolve({ paymentLast4: '1234' });
+      expect(router.forPayment(card('1234'), route, {})).toBeUndefined();
+    });
+  });
+
+  describe('forEntry', () => {
+    it('finds the route an order was posted to', () => {
+      expect(
+        router.forEntry({ budgetId: 'business-budget', accountId: 'business-card' }).name
+      ).toBe('Business');
+      expect(router.forEntry({}).name).toBe('default');
+    });
+  });
+
+  describe('initialize', () => {
+    it.each([
+      [
+        'a rule without an account',
+        { routes: [{ name: 'A', match: { to: ['a'] } }] },
+        'needs a "name" and an "accountId"',
+      ],
+      [
+        'a rule without conditions',
+        { routes: [{ name: 'A', accountId: 'a', match: {} }] },
+        'has no "match" conditions',
+      ],
+      [
+        'an empty condition',
+        { routes: [{ name: 'A', accountId: 'a', match: { to: [] } }] },
+        'must be a non-empty list',
+      ],
+      ['a file without routes', {}, 'must contain a "routes" array'],
+    ])('rejects %s', (_, routes, message) => {
+      expect(() => router.initialize(writeRoutes(routes))).toThrow(message);
+    });
+  });
+});
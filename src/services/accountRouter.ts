@@ -0,0 +1,191 @@
+import fs from 'fs';
+import logger from '../utils/logger';
+import { config } from '../config';
+import {
+  PaymentMethod,
+  RouteContext,
+  RouteMatch,
+  RouteRule,
+  RoutesConfig,
+  YNABRoute,
+} from '../types';
+
+const MATCH_FIELDS: (keyof RouteMatch)[] = [
+  'to',
+  'from',
+  'paymentLast4',
+  'deliveryAddress',
+  'amazonAccount',
+];
+
+/**
+ * Picks the YNAB budget and account an order is posted to, using rules from a
+ * routes file. Orders matching no rule go to YNAB_BUDGET_ID / YNAB_ACCOUNT_ID.
+ */
+export class AccountRouter {
+  private rules: RouteRule[] = [];
+
+  /**
+   * Load the routes file. Throws if the file is invalid.
+   */
+  initialize(routesFile: string | undefined = config.routesFile): void {
+    if (!routesFile) {
+      this.rules = [];
+      return;
+    }
+
+    const routesConfig = this.loadRoutes(routesFile);
+    routesConfig.routes.forEach((rule, i) => {
+      if (!rule.name || !rule.accountId) {
+        throw new Error(`Route #${i + 1} in ${routesFile} needs a "name" and an "accountId"`);
+      }
+      const conditions = MATCH_FIELDS.filter((field) => rule.match?.[field] !== undefined);
+      if (conditions.length === 0) {
+        throw new Error(`Route "${rule.name}" in ${routesFile} has no "match" conditions`);
+      }
+      conditions.forEach((field) => {
+        if (!Array.isArray(rule.match[field]) || rule.match[field]!.length === 0) {
+          throw new Error(`Route "${rule.name}" match.${field} must be a non-empty list`);
+        }
+      });
+    });
+
+    this.rules = routesConfig.routes;
+    logger.info(`Loaded ${this.rules.length} route(s) from ${routesFile}`);
+  }
+
+  /**
+   * The budget and account from YNAB_BUDGET_ID and YNAB_ACCOUNT_ID
+   */
+  getDefaultRoute(): YNABRoute {
+    return {
+      name: 'default',
+      budgetId: config.ynab.budgetId,
+      accountId: config.ynab.accountId,
+      giftCardAccountId: config.ynab.giftCardAccountId,
+      rewardPointsAccountId: config.ynab.rewardPointsAccountId,
+    };
+  }
+
+  /**
+   * List every route, the default first
+   */
+  listRoutes(): YNABRoute[] {
+    return [this.getDefaultRoute(), ...this.rules.map((rule) => this.toRoute(rule))];
+  }
+
+  /**
+   * List the budgets any route posts to
+   */
+  getBudgetIds(): string[] {
+    return [...new Set(this.listRoutes().map((route) => route.budgetId))];
+  }
+
+  /**
+   * Find the route for an order: the first rule whose conditions all hold
+   */
+  resolve(context: RouteContext): YNABRoute {
+    const rule = this.rules.find((candidate) => this.matches(candidate.match, context));
+    if (!rule) {
+      return this.getDefaultRoute();
+    }
+
+    logger.info(`Routing to "${rule.name}"`);
+    return this.toRoute(rule);
+  }
+
+  /**
+   * Find the account a payment is posted to when it doesn't go to the order's account:
+   * the route's gift card or reward points account, or the account another card is
+   * routed to in the same budget. Undefined when the payment stays with the order.
+   */
+  forPayment(payment: PaymentMethod, route: YNABRoute, context: RouteContext): string | undefined {
+    let accountId: string | undefined;
+    if (payment.type === 'gift-card') {
+      accountId = route.giftCardAccountId;
+    } else if (payment.type === 'reward-points') {
+      accountId = route.rewardPointsAccountId;
+    } else {
+      const cardRoute = this.resolve({ ...context, paymentLast4: payment.last4 });
+      if (cardRoute.budgetId !== route.budgetId) {
+        logger.warn(
+          `${payment.label} is routed to another budget ("${cardRoute.name}"), keeping it with the order`
+        );
+        return undefined;
+      }
+      accountId = cardRoute.accountId;
+    }
+
+    return accountId && accountId !== route.accountId ? accountId : undefined;
+  }
+
+  /**
+   * Get the route an order was posted to, from its ledger entry
+   */
+  forEntry(entry: { budgetId?: string; accountId?: string }): YNABRoute {
+    const fallback = this.getDefaultRoute();
+    if (!entry.budgetId && !entry.accountId) {
+      return fallback;
+    }
+
+    const budgetId = entry.budgetId || fallback.budgetId;
+    const accountId = entry.accountId || fallback.accountId;
+    const known = this.listRoutes().find(
+      (route) => route.budgetId === budgetId && route.accountId === accountId
+    );
+    return known || { name: accountId, budgetId, accountId };
+  }
+
+  private matches(match: RouteMatch, context: RouteContext): boolean {
+    return MATCH_FIELDS.every((field) => {
+      const values = match[field];
+      if (!values) {
+        return true;
+      }
+
+      const actual = context[field]?.toLowerCase();
+      if (!actual) {
+        return false;
+      }
+      return values.some((value) => {
+        const expected = String(value).toLowerCase();
+        return field === 'paymentLast4' ? actual === expected : actual.includes(expected);
+      });
+    });
+  }
+
+  private toRoute(rule: RouteRule): YNABRoute {
+    // The payment accounts from the environment belong to the default budget
+    const fallback =
+      !rule.budgetId || rule.budgetId === config.ynab.budgetId ? this.getDefaultRoute() : undefined;
+    return {
+      name: rule.name,
+      budgetId: rule.budgetId || config.ynab.budgetId,
+      accountId: rule.accountId,
+      giftCardAccountId: rule.giftCardAccountId || fallback?.giftCardAccountId,
+      rewardPointsAccountId: rule.rewardPointsAccountId || fallback?.rewardPointsAccountId,
+    };
+  }
+
+  /**
+   * Read and validate the routes file
+   */
+  private loadRoutes(routesFile: string): RoutesConfig {
+    let parsed: RoutesConfig;
+    try {
+      parsed = JSON.parse(fs.readFileSync(routesFile, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read routes file ${routesFile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!parsed || !Array.isArray(parsed.routes)) {
+      throw new Error(`Routes file ${routesFile} must contain a "routes" array`);
+    }
+
+    return parsed;
+  }
+}
+
+export const accountRouter = new AccountRouter();
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { ynabClient } from './ynabClient';
+import { categoryLearner } from './categoryLearner';
+import { accountRouter } from './accountRouter';
+import {
+  AmazonOrderItem,
+  CategoryRule,
+  CategoryRulesConfig,
+  ItemWithTax,
+  YNABCategory,
+} from '../types';
+
+interface CompiledRule {
+  rule: CategoryRule;
+  categoryIds: Record<string, string | undefined>; // By budget ID
+  pattern?: RegExp;
+}
+
+/**
+ * Assigns YNAB categories to order items using rules from a config file
+ */
+export class Categorizer {
+  private rules: CompiledRule[] = [];
+  private defaultCategoryIds: Record<string, string | undefined> = {};
+
+  /**
+   * Load the rules file and resolve every category name to a YNAB category ID in each
+   * budget orders are routed to. Throws if the file is invalid or a rule points at a
+   * category the main budget doesn't have; in other budgets such rules leave items
+   * uncategorized.
+   */
+  async initialize(
+    rulesFile: string | undefined = config.categoryRulesFile,
+    budgetIds: string[] = accountRouter.getBudgetIds()
+  ): Promise<void> {
+    if (!rulesFile) {
+      logger.info('No category rules file configured, transactions will be uncategorized');
+      return;
+    }
+
+    const rulesConfig = this.loadRules(rulesFile);
+    rulesConfig.rules.forEach((rule, i) => {
+      if (!rule.category) {
+        throw new Error(`Category rule #${i + 1} in ${rulesFile} is missing "category"`);
+      }
+    });
+
+    const compiled: CompiledRule[] = rulesConfig.rules.map((rule, i) => ({
+      rule,
+      categoryIds: {},
+      pattern: this.compilePattern(rule, i),
+    }));
+    const defaultCategoryIds: Record<string, string | undefined> = {};
+
+    for (const budgetId of budgetIds) {
+      const categories = await ynabClient.getCategories(budgetId);
+
+      const unknown: string[] = [];
+      const resolve = (reference: string): string | undefined => {
+        const categoryId = this.resolveCategory(reference, categories);
+        if (!categoryId) {
+          unknown.push(reference);
+        }
+        return categoryId;
+      };
+
+      compiled.forEach((entry) => {
+        entry.categoryIds[budgetId] = resolve(entry.rule.category);
+      });
+      defaultCategoryIds[budgetId] = rulesConfig.defaultCategory
+        ? resolve(rulesConfig.defaultCategory)
+        : undefined;
+
+      if (unknown.length > 0) {
+        const names = [...new Set(unknown)].join(', ');
+        if (budgetId === config.ynab.budgetId) {
+          throw new Error(`Category rules reference unknown YNAB categories: ${names}`);
+        }
+        logger.warn(`Budget ${budgetId} has no categories ${names}; matching items stay uncategorized`);
+      }
+    }
+
+    this.rules = compiled;
+    this.defaultCategoryIds = defaultCategoryIds;
+
+    logger.info(`Loaded ${this.rules.length} category rule(s) from ${rulesFile}`);
+  }
+
+  /**
+   * Find the category for an item in a budget.
+   *
+   * A category learned from past YNAB categorization wins when its confidence meets
+   * the threshold (categories are learned from the main budget only). Otherwise rules
+   * are tried in order and the first match wins. Items matching no rule get the default
+   * category, unless a low-confidence suggestion exists - those are left uncategorized
+   * for review.
+   */
+  categorize(
+    item: AmazonOrderItem | ItemWithTax,
+    budgetId: string = config.ynab.budgetId
+  ): string | undefined {
+    const suggestion = budgetId === config.ynab.budgetId ? categoryLearner.suggest(item) : null;
+    if (suggestion && suggestion.confidence >= config.categoryLearning.threshold) {
+      logger.debug(
+        `Using learned category for "${item.name}" (${suggestion.source} match on "${suggestion.matchedName}", confidence ${suggestion.confidence.toFixed(2)})`
+      );
+      return suggestion.categoryId;
+    }
+
+    const match = this.rules.find((compiled) => this.matches(compiled, item));
+    if (match) {
+      return match.categoryIds[budgetId];
+    }
+
+    if (suggestion) {
+      logger.info(
+        `Low-confidence category suggestion for "${item.name}" (confidence ${suggestion.confidence.toFixed(2)}), leaving uncategorized for review`
+      );
+      return undefined;
+    }
+
+    return this.defaultCategoryIds[budgetId];
+  }
+
+  /**
+   * Find a single category for a group of items (e.g. a consolidated transaction).
+   * Returns undefined when the items fall into different categories.
+   */
+  categorizeAll(
+    items: (AmazonOrderItem | ItemWithTax)[],
+    budgetId: string = config.ynab.budgetId
+  ): string | undefined {
+    const categoryIds = new Set(items.map((item) => this.categorize(item, budgetId)));
+    return categoryIds.size === 1 ? [...categoryIds][0] : undefined;
+  }
+
+  /**
+   * Check whether every condition of a rule holds for an item
+   */
+  private matches(compiled: CompiledRule, item: AmazonOrderItem | ItemWithTax): boolean {
+    const { rule, pattern } = compiled;
+    const name = item.name.toLowerCase();
+    const price = ('pricePerUnit' in item ? item.pricePerUnit : item.price)?.toDecimal();
+
+    if (rule.keywords && !rule.keywords.some((keyword) => name.includes(keyword.toLowerCase()))) {
+      return false;
+    }
+    if (pattern && !pattern.test(item.name)) {
+      return false;
+    }
+    if (rule.asins && !(item.asin && rule.asins.some((asin) => asin.toUpperCase() === item.asin))) {
+      return false;
+    }
+    if (rule.minPrice !== undefined && (price === undefined || price < rule.minPrice)) {
+      return false;
+    }
+    if (rule.maxPrice !== undefined && (price === undefined || price > rule.maxPrice)) {
+      return false;
+    }
+    if (rule.minQuantity !== undefined && item.quantity < rule.minQuantity) {
+      return false;
+    }
+    if (rule.maxQuantity !== undefined && item.quantity > rule.maxQuantity) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolve a category reference (ID, name, or "Group: Name") to a category ID
+   */
+  private resolveCategory(reference: string, categories: YNABCategory[]): string | undefined {
+    const byId = categories.find((category) => category.id === reference);
+    if (byId) {
+      return byId.id;
+    }
+
+    const normalized = reference.trim().toLowerCase();
+    const byGroupAndName = categories.find(
+      (category) => `${category.groupName}: ${category.name}`.toLowerCase() === normalized
+    );
+    if (byGroupAndName) {
+      return byGroupAndName.id;
+    }
+
+    const byName = categories.filter((category) => category.name.toLowerCase() === normalized);
+    if (byName.length > 1) {
+      throw new Error(
+        `Category "${reference}" is ambiguous, use "Group: Name" (found in ${byName
+          .map((category) => category.groupName)
+          .join(', ')})`
+      );
+    }
+    return byName[0]?.id;
+  }
+
+  /**
+   * Read and validate the rules file
+   */
+  private loadRules(rulesFile: string): CategoryRulesConfig {
+    let parsed: CategoryRulesConfig;
+    try {
+      parsed = JSON.parse(fs.readFileSync(rulesFile, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read category rules file ${rulesFile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!parsed || !Array.isArray(parsed.rules)) {
+      throw new Error(`Category rules file ${rulesFile} must contain a "rules" array`);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Compile a rule's regular expression, failing on invalid patterns
+   */
+  private compilePattern(rule: CategoryRule, index: number): RegExp | undefined {
+    if (!rule.pattern) {
+      return undefined;
+    }
+    try {
+      return new RegExp(rule.pattern, 'i');
+    } catch (error) {
+      throw new Error(
+        `Category rule #${index + 1} has an invalid pattern "${rule.pattern}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+export const categorizer = new Categorizer();
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TransactionDetail } from 'ynab/dist/models/TransactionDetail';
+import logger from '../utils/logger';
+import { CategoryLearner } from './categoryLearner';
+import { orderLedger } from './orderLedger';
+import { ynabClient } from './ynabClient';
+import { LedgerEntry } from '../types';
+
+const entry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+  orderNumber: '123-4567890-1234567',
+  grandTotal: 12.34,
+  transactionIds: ['txn-1'],
+  importIds: ['AMZ:123-4567890-1234567'],
+  items: [{ name: 'USB-C Cable', asin: 'B000000001', importId: 'AMZ:123-4567890-1234567' }],
+  createdAt: '2024-01-03T12:00:00.000Z',
+  ...overrides,
+});
+
+const transaction = (id: string, importId: string | null, categoryId: string) =>
+  ({ id, import_id: importId, category_id: categoryId, deleted: false, subtransactions: [] }) as unknown as TransactionDetail;
+
+describe('CategoryLearner.sync', () => {
+  const list = jest.spyOn(orderLedger, 'list');
+  const getTransactionsDelta = jest.spyOn(ynabClient, 'getTransactionsDelta');
+  let dir: string;
+  let learner: CategoryLearner;
+
+  beforeAll(() => {
+    logger.silent = true;
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'category-learner-'));
+    learner = new CategoryLearner(path.join(dir, 'category-learning.json'));
+  });
+
+  afterEach(() => {
+    list.mockReset();
+    getTransactionsDelta.mockReset();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('learns from a transaction found by its import_id', async () => {
+    list.mockReturnValue([entry({})]);
+    getTransactionsDelta.mockResolvedValue({
+      transactions: [transaction('txn-1', 'AMZ:123-4567890-1234567', 'cat-electronics')],
+      serverKnowledge: 1,
+    });
+
+    expect(await learner.sync()).toBe(1);
+    expect(learner.suggest({ name: 'USB-C Cable', asin: 'B000000001', quantity: 1 })?.categoryId).toBe(
+      'cat-electronics'
+    );
+  });
+
+  it('learns from a matched bank transaction by its id', async () => {
+    list.mockReturnValue([entry({ transactionIds: ['bank-txn'], matchedTransactionIds: ['bank-txn'] })]);
+    getTransactionsDelta.mockResolvedValue({
+      transactions: [transaction('bank-txn', 'YNAB:-12340:2024-01-03:1', 'cat-electronics')],
+      serverKnowledge: 1,
+    });
+
+    expect(await learner.sync()).toBe(1);
+    expect(learner.suggest({ name: 'USB-C Cable', asin: 'B000000001', quantity: 1 })?.categoryId).toBe(
+      'cat-electronics'
+    );
+  });
+
+  it('ignores transactions that belong to no imported order', async () => {
+    list.mockReturnValue([entry({})]);
+    getTransactionsDelta.mockResolvedValue({
+      transactions: [transaction('other', 'YNAB:-500:2024-01-03:1', 'cat-groceries')],
+      serverKnowledge: 1,
+    });
+
+    expect(await learner.sync()).toBe(0);
+  });
+});
@@ -0,0 +1,243 @@
+import path from 'path';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { orderLedger } from './orderLedger';
+import { ynabClient } from './ynabClient';
+import {
+  AmazonOrderItem,
+  CategorySuggestion,
+  ItemWithTax,
+  LearnedCategory,
+  LedgerItem,
+} from '../types';
+
+interface LearningData {
+  serverKnowledge?: number;
+  entries: LearnedCategory[];
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'of', 'in', 'to', 'pack', 'count']);
+
+/**
+ * Learns item → category associations from how imported transactions were
+ * categorized in YNAB, and suggests categories for newly parsed items
+ */
+export class CategoryLearner {
+  private store: JsonFileStore<LearningData>;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string = path.join(config.dataDir, 'category-learning.json')) {
+    this.store = new JsonFileStore<LearningData>(filePath, () => ({ entries: [] }));
+  }
+
+  /**
+   * Sync now and then periodically, as configured
+   */
+  start(intervalMinutes: number = config.categoryLearning.syncIntervalMinutes): void {
+    const run = () =>
+      this.sync().catch((error) => logger.error('Error syncing learned categories', error));
+
+    void run();
+
+    if (intervalMinutes > 0) {
+      this.timer = setInterval(run, intervalMinutes * 60 * 1000);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop periodic syncing
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Read back the transactions we created and record the categories they now have.
+   * Returns the number of associations learned or updated.
+   */
+  async sync(): Promise<number> {
+    // Index imported items by the import_id and the YNAB id of the transaction they were
+    // posted in. A transaction matched to an existing bank import keeps the bank's
+    // import_id, so only its id finds it.
+    const itemsByImportId = new Map<string, LedgerItem[]>();
+    const itemsByTransactionId = new Map<string, LedgerItem[]>();
+    for (const entry of orderLedger.list()) {
+      const items = entry.items || [];
+      for (const item of items) {
+        itemsByImportId.set(item.importId, [...(itemsByImportId.get(item.importId) || []), item]);
+      }
+
+      entry.importIds.forEach((importId, i) => {
+        const transactionId = entry.transactionIds[i];
+        const posted = items.filter((item) => item.importId === importId);
+        if (transactionId && posted.length > 0) {
+          itemsByTransactionId.set(transactionId, posted);
+        }
+      });
+
+      // Matched transactions not recorded by position belong to the order's only transaction
+      const importIds = new Set(items.map((item) => item.importId));
+      for (const transactionId of entry.matchedTransactionIds || []) {
+        if (!itemsByTransactionId.has(transactionId) && importIds.size === 1) {
+          itemsByTransactionId.set(transactionId, items);
+        }
+      }
+    }
+
+    if (itemsByImportId.size === 0) {
+      logger.debug('No imported items to learn categories from');
+      return 0;
+    }
+
+    const { serverKnowledge } = this.store.read();
+    const delta = await ynabClient.getTransactionsDelta(serverKnowledge);
+
+    let learned = 0;
+    for (const transaction of delta.transactions) {
+      const items =
+        itemsByTransactionId.get(transaction.id) ||
+        (transaction.import_id ? itemsByImportId.get(transaction.import_id) : undefined);
+      if (transaction.deleted || !items) {
+        continue;
+      }
+
+      if (transaction.subtransactions.length > 0) {
+        // Split transaction: match subtransactions to items by memo
+        for (const sub of transaction.subtransactions) {
+          if (sub.deleted || !sub.category_id || !sub.memo) {
+            continue;
+          }
+          const memo = sub.memo.replace(/\.\.\.$/, '');
+          const item = items.find(
+            (candidate) => candidate.name.startsWith(memo) || memo.startsWith(candidate.name)
+          );
+          if (item && this.learn(item, sub.category_id)) {
+            learned++;
+          }
+        }
+      } else if (transaction.category_id && items.length === 1) {
+        // Per-item (or single-item) transaction
+        if (this.learn(items[0], transaction.category_id)) {
+          learned++;
+        }
+      }
+    }
+
+    this.store.update((data) => {
+      data.serverKnowledge = delta.serverKnowledge;
+    });
+
+    logger.info(`Category learning sync complete: ${learned} association(s) learned or updated`);
+    return learned;
+  }
+
+  /**
+   * Suggest a category for an item: exact ASIN matches first, then the most
+   * similar previously seen item name
+   */
+  suggest(item: AmazonOrderItem | ItemWithTax): CategorySuggestion | null {
+    const { entries } = this.store.read();
+
+    if (item.asin) {
+      const byAsin = entries.find((entry) => entry.asin === item.asin);
+      if (byAsin) {
+        return {
+          categoryId: byAsin.categoryId,
+          confidence: 1,
+          source: 'asin',
+          matchedName: byAsin.name,
+        };
+      }
+    }
+
+    const tokens = this.tokenize(item.name);
+    let best: CategorySuggestion | null = null;
+
+    for (const entry of entries) {
+      const confidence = this.similarity(tokens, this.tokenize(entry.name));
+      if (confidence > 0 && (!best || confidence > best.confidence)) {
+        best = {
+          categoryId: entry.categoryId,
+          confidence,
+          source: 'name',
+          matchedName: entry.name,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Record (or update) the category for an item. Returns true if anything changed.
+   */
+  private learn(item: LedgerItem, categoryId: string): boolean {
+    let changed = false;
+
+    this.store.update((data) => {
+      const normalized = item.name.trim().toLowerCase();
+      const existing = data.entries.find((entry) =>
+        item.asin
+          ? entry.asin === item.asin
+          : !entry.asin && entry.name.trim().toLowerCase() === normalized
+      );
+
+      if (existing) {
+        if (existing.categoryId !== categoryId) {
+          existing.categoryId = categoryId;
+          existing.updatedAt = new Date().toISOString();
+          changed = true;
+        }
+        return;
+      }
+
+      data.entries.push({
+        name: item.name,
+        asin: item.asin,
+        categoryId,
+        updatedAt: new Date().toISOString(),
+      });
+      changed = true;
+    });
+
+    if (changed) {
+      logger.debug(`Learned category ${categoryId} for "${item.name}"`);
+    }
+    return changed;
+  }
+
+  /**
+   * Split a product name into lowercase word tokens
+   */
+  private tokenize(name: string): Set<string> {
+    return new Set(
+      name
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((token) => token.length >= 2 && !STOP_WORDS.has(token))
+    );
+  }
+
+  /**
+   * Jaccard similarity between two token sets (0..1)
+   */
+  private similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+      return 0;
+    }
+    let shared = 0;
+    for (const token of a) {
+      if (b.has(token)) {
+        shared++;
+      }
+    }
+    return shared / (a.size + b.size - shared);
+  }
+}
+
+export const categoryLearner = new CategoryLearner();
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import axios from 'axios';
+import logger from '../utils/logger';
+import { formatDate } from '../utils/dates';
+import { config } from '../config';
+import { ynabClient } from './ynabClient';
+import { CurrencyConversion, ExchangeRateProvider } from '../types';
+
+/**
+ * Exchange rates from a fixed table, for offline use and tests.
+ * Rates are keyed "FROM/TO"; the inverse pair is derived automatically.
+ */
+export class FixedRateProvider implements ExchangeRateProvider {
+  constructor(private readonly rates: Record<string, number>) {}
+
+  /**
+   * Load rates from a JSON file of the form { "rates": { "EUR/USD": 1.08 } }
+   */
+  static fromFile(filePath: string): FixedRateProvider {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return new FixedRateProvider(parsed.rates || {});
+    } catch (error) {
+      throw new Error(
+        `Could not read exchange rates file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async getRate(from: string, to: string): Promise<number> {
+    const direct = this.rates[`${from}/${to}`];
+    if (direct) {
+      return direct;
+    }
+
+    const inverse = this.rates[`${to}/${from}`];
+    if (inverse) {
+      return 1 / inverse;
+    }
+
+    throw new Error(`No exchange rate configured for ${from}/${to}`);
+  }
+}
+
+/**
+ * Daily reference rates from the European Central Bank via frankfurter.app
+ */
+export class FrankfurterRateProvider implements ExchangeRateProvider {
+  constructor(private readonly baseUrl: string = 'https://api.frankfurter.app') {}
+
+  async getRate(from: string, to: string, date?: Date): Promise<number> {
+    const day = date ? formatDate(date) : 'latest';
+    const response = await axios.get(`${this.baseUrl}/${day}`, {
+      params: { from, to },
+      timeout: 10000,
+    });
+
+    const rate = response.data?.rates?.[to];
+    if (typeof rate !== 'number') {
+      throw new Error(`Exchange rate service returned no rate for ${from}/${to}`);
+    }
+
+    return rate;
+  }
+}
+
+/**
+ * Works out how to convert order amounts into the budget's currency
+ */
+export class CurrencyConverter {
+  private provider: ExchangeRateProvider | null = null;
+
+  constructor(provider?: ExchangeRateProvider) {
+    this.provider = provider || null;
+  }
+
+  /**
+   * Get the conversion from the order currency to the currency of the budget
+   * (the main budget by default), or undefined when no conversion is needed
+   */
+  async getConversion(
+    orderCurrency: string | undefined,
+    date?: Date,
+    budgetId?: string
+  ): Promise<CurrencyConversion | undefined> {
+    if (!orderCurrency) {
+      return undefined;
+    }
+
+    const budgetCurrency = await ynabClient.getBudgetCurrency(budgetId);
+    if (!budgetCurrency || budgetCurrency === orderCurrency) {
+      return undefined;
+    }
+
+    const rate = await this.getProvider().getRate(orderCurrency, budgetCurrency, date);
+    logger.info(`Converting ${orderCurrency} to ${budgetCurrency} at ${rate}`);
+
+    return { from: orderCurrency, to: budgetCurrency, rate };
+  }
+
+  /**
+   * Create the configured provider on first use
+   */
+  private getProvider(): ExchangeRateProvider {
+    if (!this.provider) {
+      if (config.exchangeRates.provider === 'frankfurter') {
+        this.provider = new FrankfurterRateProvider();
+      } else if (config.exchangeRates.ratesFile) {
+        this.provider = FixedRateProvider.fromFile(config.exchangeRates.ratesFile);
+      } else {
+        throw new Error(
+          'Order currency differs from the budget currency but no exchange rates are configured (set EXCHANGE_RATES_FILE or EXCHANGE_RATE_PROVIDER)'
+        );
+      }
+    }
+    return this.provider;
+  }
+}
+
+export const currencyConverter = new CurrencyConverter();
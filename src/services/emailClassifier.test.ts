@@ -0,0 +1,26 @@
+import { emailClassifier } from './emailClassifier';
+
+describe('EmailClassifier.classifyContent', () => {
+  it.each([
+    ['Ordered: "USB-C Cable" and 1 more item', 'order'],
+    ['Your Amazon.com order #123-4567890-1234567', 'order'],
+    ['Bestellt: "Ladekabel"', 'order'],
+    ['Your refund for order #123-4567890-1234567', 'refund'],
+    ['Your Amazon.com order has been cancelled', 'cancellation'],
+    ['Shipped: "USB-C Cable"', 'shipment'],
+  ])('classifies "%s" as %s', (subject, type) => {
+    expect(emailClassifier.classifyContent(subject, '', '')).toBe(type);
+  });
+
+  it.each([
+    'Delivered: Your Amazon.com order #123-4567890-1234567',
+    'Rate your experience with order #123-4567890-1234567',
+    'Zugestellt: Ihre Amazon.de-Bestellung',
+  ])('ignores other emails that mention an order: "%s"', (subject) => {
+    expect(emailClassifier.classifyContent(subject, '', 'Order Total: $12.34')).toBe('unknown');
+  });
+
+  it('falls back to the body when there is no subject', () => {
+    expect(emailClassifier.classifyContent('', '', 'Order Total: $12.34')).toBe('order');
+  });
+});
@@ -0,0 +1,85 @@
+import logger from '../utils/logger';
+import { isAmazonDomain } from '../utils/marketplace';
+import { EmailType, EmailWebhookPayload } from '../types';
+
+interface ClassificationRule {
+  type: Exclude<EmailType, 'unknown'>;
+  subject: RegExp;
+  body?: RegExp;
+}
+
+/**
+ * Rules are tried in order, so more specific email types come first
+ * (a refund subject usually also mentions the order). Subjects include the
+ * localized wording of the supported non-English storefronts.
+ */
+const RULES: ClassificationRule[] = [
+  {
+    type: 'refund',
+    subject:
+      /\brefund\b|\breturn (?:is |has been )?(?:processed|received|complete)|erstattung|remboursement|rimborso|reembolso/i,
+    body: /refund (?:total|subtotal|amount)|your refund (?:of|for)|we(?:'ve| have) (?:issued|processed) (?:a|your) refund/i,
+  },
+  {
+    type: 'cancellation',
+    subject: /cancel+(?:ed|ation)|storniert|annulée?|annullat[oa]|cancelad[oa]/i,
+    body: /(?:order|item(?:s|\(s\))?) (?:has been|have been|was|were) cancel+ed/i,
+  },
+  {
+    type: 'shipment',
+    subject: /^shipped:|\bhas shipped\b|\bshipment\b|versandt|expédiée?|spedit[oa]|enviado/i,
+    body: /\bhas shipped\b|\bshipped on\b/i,
+  },
+  {
+    // Only confirmation wording: delivery, review and other emails also mention the order
+    type: 'order',
+    subject:
+      /^ordered:|^your amazon(?:\.[a-z]+)+ order\b|\border confirmation\b|^bestellt:|^ihre amazon(?:\.[a-z]+)+[- ]bestellung|^bestellbestätigung|^commandé\s*:|^votre commande amazon|^ordinato:|^il tuo ordine amazon|^conferma (?:dell')?ordine|^pedido realizado|^tu pedido de amazon|^confirmación de(?:l)? pedido/i,
+    body: /(?:grand|order) total|gesamtsumme|montant total|totale ordine|total del pedido/i,
+  },
+];
+
+/**
+ * Decides what kind of Amazon email a payload is, so it can be routed to the right parser
+ */
+export class EmailClassifier {
+  /**
+   * Classify an incoming email. Non-Amazon senders are always 'unknown'.
+   */
+  classify(payload: EmailWebhookPayload): EmailType {
+    if (!this.isFromAmazon(payload.from)) {
+      logger.debug(`Email from ${payload.from} is not from Amazon`);
+      return 'unknown';
+    }
+
+    return this.classifyContent(payload.subject, payload.html, payload.text);
+  }
+
+  /**
+   * Classify by subject, falling back to body content only when there is no subject
+   * (e.g. manually submitted emails). Any other subject is 'unknown', so delivery
+   * notices and the like are ignored rather than parsed as orders.
+   */
+  classifyContent(subject: string, html: string, text: string): EmailType {
+    const bySubject = RULES.find((rule) => rule.subject.test(subject));
+    if (bySubject) {
+      return bySubject.type;
+    }
+    if (subject.trim()) {
+      return 'unknown';
+    }
+
+    const body = `${text}\n${html}`;
+    const byBody = RULES.find((rule) => rule.body && rule.body.test(body));
+    return byBody ? byBody.type : 'unknown';
+  }
+
+  /**
+   * Check the sender address belongs to one of the supported Amazon storefronts
+   */
+  private isFromAmazon(from: string): boolean {
+    return isAmazonDomain(from);
+  }
+}
+
+export const emailClassifier = new EmailClassifier();
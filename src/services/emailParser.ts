@@ -1,24 +1,137 @@
 import * as cheerio from 'cheerio';
 import logger from '../utils/logger';
-import { AmazonOrder, AmazonOrderItem, ParsedEmail } from '../types';
+import { extractAsin } from '../utils/asin';
+import { parseDate } from '../utils/dates';
+import { Money } from '../utils/money';
+import {
+  detectMarketplace,
+  MONEY_PATTERN,
+  parseMoney,
+  QUANTITY_PATTERN,
+} from '../utils/marketplace';
+import {
+  AmazonOrder,
+  AmazonOrderItem,
+  AmazonCancellation,
+  AmazonRefund,
+  AmazonShipment,
+  Marketplace,
+  OrderSummary,
+  ParsedEmail,
+  ParsedRefundEmail,
+  PaymentMethod,
+  PaymentType,
+} from '../types';
+
+/** Labels preceding the order-placed date, in the languages of the supported storefronts */
+const ORDER_DATE_PATTERN =
+  /(?:order placed|ordered on|order date|placed on|bestelldatum|bestellt am|date de (?:la )?commande|command[ée]e? le|data dell'ordine|ordine effettuato il|fecha del pedido|pedido realizado el)[\s:]*([^\n]{1,40})/i;
+
+/** Labels preceding the delivery address, in the languages of the supported storefronts */
+const DELIVERY_ADDRESS_PATTERN =
+  /(?:delivering to|deliver to|shipping to|ship to|shipping address|lieferadresse|lieferung an|adresse de livraison|livraison à|indirizzo di spedizione|dirección de envío)[\s:]*([^\n]{3,120})/i;
+
+/** The short "Name - CITY, ST" address line of newer order emails */
+const ADDRESS_LINE_PATTERN = /^[^\n]+ - [^\n,]+,\s*[A-Z]{2}(?:\s+\d{5}(?:-\d{4})?)?[ \t]*$/m;
+
+/** Labels of the amount charged for one shipment, in order of preference */
+const SHIPMENT_CHARGE_LABELS = [
+  'Shipment Total',
+  'Total for this shipment',
+  'Amount charged',
+  'Summe dieser Lieferung',
+  'Montant de cet envoi',
+  'Totale della spedizione',
+  'Total del envío',
+];
+
+/** The card charged, e.g. "Visa ending in 1234" or "Mastercard ****1234" */
+const PAYMENT_LAST4_PATTERN =
+  /(?:ending in|ending with|endet mit|endend auf|se terminant par|terminant par|termina(?:nte)? (?:in|con|en)|terminada en)\s*:?\s*(\d{4})\b|(?:\*{2,}|•{2,}|…)\s*(\d{4})\b/i;
+
+/** Card brands named just before the last four digits */
+const CARD_BRAND_PATTERN = /(visa|mastercard|american express|amex|discover|jcb|maestro|diners club)[^\n]{0,20}$/i;
+
+/** Labels of the gift card and reward points payment lines, in order of preference */
+const GIFT_CARD_LABELS = ['Gift Card Amount', 'Gift Card', 'Geschenkgutschein', 'Carte cadeau', 'Buono regalo', 'Cheque regalo'];
+const REWARD_POINTS_LABELS = ['Reward Points', 'Rewards Points'];
+
+/** The greeting naming the account holder, e.g. "Hello Jane," */
+const GREETING_PATTERN = /^\s*(?:hello|hi|dear|hallo|guten tag|bonjour|ciao|buongiorno|hola)\s+([^,\n!]{1,60})[,!]/im;
+
+/**
+ * Labels of the order summary lines, in order of preference, in the languages of the
+ * supported storefronts. Fields are matched in this order and a line is only used once,
+ * so "Total before tax" is never read as "Tax".
+ */
+const SUMMARY_LABELS: Record<Exclude<keyof OrderSummary, 'grandTotal'>, string[]> = {
+  itemSubtotal: ['Item(s) Subtotal', 'Items Subtotal', 'Item Subtotal', 'Subtotal', 'Zwischensumme', 'Sous-total', 'Subtotale'],
+  shipping: [
+    'Shipping & Handling',
+    'Shipping and Handling',
+    'Postage & Packing',
+    'Shipping',
+    'Delivery',
+    'Verpackung & Versand',
+    'Versand',
+    'Livraison',
+    'Spedizione',
+    'Envío',
+  ],
+  discounts: [
+    'Promotion Applied',
+    'Promotions Applied',
+    'Your Coupon Savings',
+    'Subscribe & Save',
+    'Discount',
+    'Rabatt',
+    'Gutschein',
+    'Réduction',
+    'Sconto',
+    'Descuento',
+  ],
+  totalBeforeTax: ['Total before tax', 'Total before VAT', 'Summe ohne MwSt', 'Total HT', 'Totale senza IVA', 'Total sin IVA'],
+  tax: ['Estimated tax to be collected', 'Estimated Tax', 'Sales Tax', 'Tax', 'VAT', 'GST/HST', 'MwSt', 'TVA', 'IVA'],
+  giftCard: [...GIFT_CARD_LABELS, ...REWARD_POINTS_LABELS],
+};
+
+/** A summary amount directly follows its label, possibly negative ("-$5.00", "($5.00)") */
+const SUMMARY_AMOUNT_START = /^\s*:?\s*[-\u2212\u2013(]?\s*(?:US\$|CA\$|CDN\$|C\$|[$£€]|USD|CAD|GBP|EUR|\d)/;
+
+/** A line holding nothing but an amount, e.g. an item price in a plain-text email */
+const PRICE_LINE_PATTERN = new RegExp(`^(?:${MONEY_PATTERN.source})$`);
 
 /**
  * Parses an Amazon order confirmation email
  */
 export class EmailParser {
   /**
-   * Main entry point to parse an email
+   * Main entry point to parse an email. The headers provide the email's Date,
+   * used as the order date when the body doesn't state one.
    */
-  parseEmail(html: string, text: string): ParsedEmail {
+  parseEmail(html: string, text: string, headers?: Record<string, string>): ParsedEmail {
     logger.info('Parsing Amazon order email');
 
-    const order = this.parseFromHtml(html) || this.parseFromText(text);
+    // Work out the storefront from the links in the email
+    const marketplace = detectMarketplace(html, text);
+
+    const order = this.parseFromHtml(html, marketplace) || this.parseFromText(text, marketplace);
 
     if (!order) {
       throw new Error('Could not parse Amazon order from email');
     }
 
-    logger.info(`Parsed order ${order.orderNumber} with ${order.items.length} items`);
+    const content = this.visibleText(html, text);
+    order.orderDate = this.extractOrderDate(content) || this.parseHeaderDate(headers) || new Date();
+    order.summary = this.extractSummary(content, order.grandTotal);
+    order.deliveryAddress = this.extractDeliveryAddress(content);
+    order.payments = this.extractPayments(content, order.grandTotal);
+    order.paymentLast4 = order.payments.find((payment) => payment.type === 'card')?.last4;
+    order.amazonAccount = content.match(GREETING_PATTERN)?.[1].trim();
+
+    logger.info(
+      `Parsed ${marketplace.domain} order ${order.orderNumber} with ${order.items.length} items (${marketplace.currency})`
+    );
 
     return {
       order,
@@ -28,22 +141,309 @@ export class EmailParser {
   }
 
   /**
-   * Decode quoted-printable encoded text
+   * Read the email's Date header (header names are case-insensitive)
+   */
+  parseHeaderDate(headers?: Record<string, string>): Date | undefined {
+    const key = Object.keys(headers || {}).find((name) => name.toLowerCase() === 'date');
+    if (!headers || !key) {
+      return undefined;
+    }
+
+    const date = new Date(headers[key]);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  /**
+   * Get the visible text of an email (HTML text content followed by the plain text)
+   */
+  private visibleText(html: string, text: string): string {
+    return html ? `${cheerio.load(html).root().text()}\n${text}` : text;
+  }
+
+  /**
+   * Find the order-placed date stated in the email body
+   */
+  private extractOrderDate(content: string): Date | undefined {
+    const match = content.match(ORDER_DATE_PATTERN);
+    return (match && parseDate(match[1])) || undefined;
+  }
+
+  /**
+   * Read the order summary lines (subtotal, shipping, discounts, tax, gift card)
+   */
+  private extractSummary(content: string, grandTotal: Money): OrderSummary {
+    const summary: OrderSummary = { grandTotal };
+    const used: Array<[number, number]> = [];
+
+    for (const [field, labels] of Object.entries(SUMMARY_LABELS) as [keyof typeof SUMMARY_LABELS, string[]][]) {
+      // Orders can have several promotion lines, and both a gift card and a reward points
+      // line; every other field has one line
+      const amounts =
+        field === 'giftCard'
+          ? [GIFT_CARD_LABELS, REWARD_POINTS_LABELS].flatMap((credit) =>
+              this.findSummaryAmounts(content, credit, used, false)
+            )
+          : this.findSummaryAmounts(content, labels, used, field === 'discounts');
+      if (amounts.length > 0) {
+        summary[field] = Money.sum(amounts);
+      }
+
+      // The summary block starts at the subtotal; promotions listed with items above it
+      // are already included in the summary lines
+      if (field === 'itemSubtotal' && used.length > 0) {
+        used.push([0, used[0][0]]);
+      }
+    }
+
+    const expected = this.summaryTotal(summary);
+    if (expected && !expected.equals(grandTotal)) {
+      logger.warn(`Order summary lines add up to ${expected}, but the grand total is ${grandTotal}`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Add up the order summary lines, which should equal the grand total.
+   * Null when the email has no item subtotal to start from.
+   */
+  summaryTotal(summary: OrderSummary): Money | null {
+    if (summary.itemSubtotal === undefined) {
+      return null;
+    }
+    return Money.sum([
+      summary.itemSubtotal,
+      summary.shipping ?? Money.ZERO,
+      (summary.discounts ?? Money.ZERO).negate(),
+      summary.tax ?? Money.ZERO,
+      (summary.giftCard ?? Money.ZERO).negate(),
+    ]);
+  }
+
+  /**
+   * Find the amounts following the given labels. Positions already used by other
+   * summary lines are skipped and the matched ones (label and amount) are added to `used`.
+   */
+  private findSummaryAmounts(
+    content: string,
+    labels: string[],
+    used: Array<[number, number]>,
+    all: boolean
+  ): Money[] {
+    const amounts: Money[] = [];
+
+    for (const label of labels) {
+      const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      for (const match of content.matchAll(new RegExp(`(?<!\\p{L})${escaped}`, 'giu'))) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        if (used.some(([from, to]) => start < to && end > from)) {
+          continue;
+        }
+
+        const following = content.substring(end, end + 40);
+        if (!SUMMARY_AMOUNT_START.test(following)) {
+          continue;
+        }
+        const amount = parseMoney(following, false);
+        const amountMatch = following.match(MONEY_PATTERN) || following.match(/\d[\d.,]*\d/);
+        if (amount === null || !amountMatch) {
+          continue;
+        }
+
+        used.push([start, end + amountMatch.index! + amountMatch[0].length]);
+        amounts.push(amount.abs());
+        if (!all) {
+          return amounts;
+        }
+      }
+    }
+
+    return amounts;
+  }
+
+  /**
+   * Parse an Amazon refund / return-processed email
+   */
+  parseRefundEmail(html: string, text: string): ParsedRefundEmail {
+    logger.info('Parsing Amazon refund email');
+
+    const refund = this.parseRefund(html, text);
+
+    if (!refund) {
+      throw new Error('Could not parse Amazon refund from email');
+    }
+
+    logger.info(
+      `Parsed refund of ${refund.refundTotal} ${refund.currency} for order ${refund.orderNumber} (${refund.items.length} items)`
+    );
+
+    return {
+      refund,
+      rawHtml: html,
+      rawText: text,
+    };
+  }
+
+  /**
+   * Extract refund details. Amounts and the order number are read from the visible
+   * text (HTML or plain), items from product links when HTML is available.
    */
-  private decodeQuotedPrintable(text: string): string {
-    return text
-      .replace(/=\r?\n/g, '') // Remove soft line breaks
-      .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  private parseRefund(html: string, text: string): AmazonRefund | null {
+    try {
+      const { content, items } = this.readNotification(html, text);
+
+      const orderNumber = this.matchOrderNumber(content);
+      if (!orderNumber) {
+        logger.warn('Could not extract order number from refund email');
+        return null;
+      }
+
+      const refundTotal = this.findLabeledAmount(content, [
+        'Refund Total',
+        'Total Refund',
+        'Refund Amount',
+        'Refund Subtotal',
+        'refund of',
+        'Erstattungsbetrag',
+        'Montant du remboursement',
+        'Importo del rimborso',
+        'Importe del reembolso',
+      ]);
+      if (refundTotal === null) {
+        logger.warn('Could not extract refund amount from refund email');
+        return null;
+      }
+
+      return {
+        orderNumber,
+        refundTotal,
+        currency: detectMarketplace(html, text).currency,
+        items,
+      };
+    } catch (error) {
+      logger.error('Error parsing refund email', error);
+      return null;
+    }
+  }
+
+  /**
+   * Parse an Amazon order or item cancellation email
+   */
+  parseCancellationEmail(html: string, text: string): AmazonCancellation {
+    logger.info('Parsing Amazon cancellation email');
+
+    const { content, items } = this.readNotification(html, text);
+
+    const orderNumber = this.matchOrderNumber(content);
+    if (!orderNumber) {
+      throw new Error('Could not parse order number from cancellation email');
+    }
+
+    // "Item(s) cancelled" emails list only the cancelled items; without any items
+    // we can't tell what was cancelled, so treat it as the whole order
+    const partial = /item(?:s|\(s\))?\s+(?:has |have |was |were )?(?:been\s+)?cancel+ed|partial/i.test(
+      content
+    );
+    const fullOrder = items.length === 0 || !partial;
+
+    logger.info(
+      `Parsed ${fullOrder ? 'full' : 'partial'} cancellation for order ${orderNumber} (${items.length} items)`
+    );
+
+    return { orderNumber, items, fullOrder };
+  }
+
+  /**
+   * Parse an Amazon "Shipped" email
+   */
+  parseShipmentEmail(html: string, text: string): AmazonShipment {
+    logger.info('Parsing Amazon shipment email');
+
+    const { content, items } = this.readNotification(html, text);
+
+    const orderNumber = this.matchOrderNumber(content);
+    if (!orderNumber) {
+      throw new Error('Could not parse order number from shipment email');
+    }
+
+    let shipDate: Date | undefined;
+    const dateMatch = content.match(
+      /(?:[Ss]hipped|[Ss]hip [Dd]ate)(?:\s+on)?[:\s]+((?:[A-Z][a-z]+,\s+)?[A-Z][a-z]+\s+\d{1,2},?\s+\d{4})/
+    );
+    if (dateMatch) {
+      shipDate = parseDate(dateMatch[1]) || undefined;
+    }
+
+    const charge = this.findLabeledAmount(content, SHIPMENT_CHARGE_LABELS) ?? undefined;
+
+    logger.info(
+      `Parsed shipment for order ${orderNumber} (${items.length} items${charge ? `, charged ${charge}` : ''})`
+    );
+
+    return { orderNumber, shipDate, items, charge };
+  }
+
+  /**
+   * Read the visible text and product items from a notification email
+   * (refund, cancellation, shipment)
+   */
+  private readNotification(
+    html: string,
+    text: string
+  ): { content: string; items: AmazonOrderItem[] } {
+    let content = text;
+    let items: AmazonOrderItem[] = [];
+
+    if (html) {
+      const $ = cheerio.load(html);
+      content = `${$.root().text()}\n${text}`;
+      items = this.extractItems($);
+    }
+
+    if (items.length === 0) {
+      items = this.extractItemsFromText(text);
+    }
+
+    return { content, items };
+  }
+
+  /**
+   * Find the amount following the first label (in order of preference) present in the text
+   */
+  private findLabeledAmount(content: string, labels: string[]): Money | null {
+    for (const label of labels) {
+      const index = content.toLowerCase().indexOf(label.toLowerCase());
+      if (index < 0) {
+        continue;
+      }
+
+      // The amount follows the label, possibly after a colon and whitespace
+      const following = content.substring(index + label.length, index + label.length + 40);
+      const amount = parseMoney(following, false);
+      if (amount !== null) {
+        return amount;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find an Amazon order number (###-#######-#######) in free text
+   */
+  private matchOrderNumber(content: string): string | null {
+    const match = content.match(/Order\s*#?\s*[\u200B]?(\d{3}-\d{7}-\d{7})/i) ||
+                  content.match(/(\d{3}-\d{7}-\d{7})/);
+    return match ? match[1] : null;
   }
 
   /**
    * Parse order information from HTML content
    */
-  private parseFromHtml(html: string): AmazonOrder | null {
+  private parseFromHtml(html: string, marketplace: Marketplace): AmazonOrder | null {
     try {
-      // Decode quoted-printable encoding if present
-      const decodedHtml = this.decodeQuotedPrintable(html);
-      const $ = cheerio.load(decodedHtml);
+      const $ = cheerio.load(html);
 
       // Extract order number - multiple possible selectors
       const orderNumber = this.extractOrderNumber($) || '';
@@ -53,8 +453,8 @@ export class EmailParser {
       }
 
       // Extract grand total
-      const grandTotal = this.extractGrandTotal($);
-      if (grandTotal === 0) {
+      const grandTotal = this.extractGrandTotal($, marketplace);
+      if (!grandTotal || grandTotal.isZero()) {
         logger.warn('Could not extract grand total from HTML');
         return null;
       }
@@ -66,15 +466,12 @@ export class EmailParser {
         return null;
       }
 
-      // Extract delivery address (optional)
-      const deliveryAddress = this.extractDeliveryAddress($);
-
       return {
         orderNumber,
         grandTotal,
         items,
-        deliveryAddress,
-        orderDate: new Date(),
+        marketplace: marketplace.domain,
+        currency: marketplace.currency,
       };
     } catch (error) {
       logger.error('Error parsing HTML', error);
@@ -115,46 +512,46 @@ export class EmailParser {
   /**
    * Extract grand total from the email
    */
-  private extractGrandTotal($: cheerio.CheerioAPI): number {
-    // Look for "Grand Total" text and find the amount in the next cell or nearby
-    const grandTotalElement = $('*:contains("Grand Total")').filter(function() {
-      const text = $(this).text().trim();
-      return text === 'Grand Total:' || text === 'Grand Total';
-    }).first();
-
-    if (grandTotalElement.length > 0) {
+  private extractGrandTotal($: cheerio.CheerioAPI, marketplace: Marketplace): Money | null {
+    // Look for the (localized) "Grand Total" label and find the amount in the next cell or nearby
+    for (const label of marketplace.grandTotalLabels) {
+      const grandTotalElement = $(`*:contains("${label}")`).filter(function() {
+        const text = $(this).text().trim().toLowerCase();
+        return text === `${label.toLowerCase()}:` || text === label.toLowerCase();
+      }).first();
+
+      if (grandTotalElement.length === 0) {
+        continue;
+      }
+
       // Try to find the amount in the next sibling cell
       let amountText = grandTotalElement.next().text();
 
       // If not found, try looking in the parent row for a bold amount
-      if (!amountText || !/\$/.test(amountText)) {
+      if (!amountText || !MONEY_PATTERN.test(amountText)) {
         amountText = grandTotalElement.closest('tr').find('td').filter(function() {
-          return /\$\s*\d+\.\d{2}/.test($(this).text());
+          return MONEY_PATTERN.test($(this).text());
         }).text();
       }
 
-      const match = amountText.match(/\$\s*([\d,]+\.\d{2})/);
-      if (match) {
-        return parseFloat(match[1].replace(/,/g, ''));
+      const amount = parseMoney(amountText);
+      if (amount !== null) {
+        return amount;
       }
     }
 
     // Alternative: Look for bold text with currency
+    const totalWords = ['total', 'summe', 'totale', 'importe'];
     const amountText = $('td, div')
       .filter(function() {
         const text = $(this).text();
-        return /\$\s*\d+\.\d{2}/.test(text) &&
-               (text.includes('Total') || text.includes('total'));
+        const lower = text.toLowerCase();
+        return MONEY_PATTERN.test(text) && totalWords.some((word) => lower.includes(word));
       })
       .first()
       .text();
 
-    const match = amountText.match(/\$\s*([\d,]+\.\d{2})/);
-    if (match) {
-      return parseFloat(match[1].replace(/,/g, ''));
-    }
-
-    return 0;
+    return parseMoney(amountText);
   }
 
   /**
@@ -163,20 +560,24 @@ export class EmailParser {
   private extractItems($: cheerio.CheerioAPI): AmazonOrderItem[] {
     const items: AmazonOrderItem[] = [];
 
-    // Method 1: Look for product links and associated text
+    // Method 1: Look for product links and associated text (on any Amazon storefront)
     // Include redirect URLs that contain encoded /dp/ (%2Fdp%2F) or /gp/product/ (%2Fgp%2Fproduct%2F)
-    $('a[href*="amazon.com/dp/"], a[href*="amazon.com/gp/product/"], a[href*="amazon.com/gp/r.html"]').each((_, elem) => {
+    $('a[href*="/dp/"], a[href*="/gp/product/"], a[href*="/gp/r.html"]').each((_, elem) => {
       const $link = $(elem);
 
       // Get product URL (decode it)
       let productUrl = $link.attr('href') || '';
 
+      if (!/amazon\./i.test(productUrl)) {
+        return;
+      }
+
       // Skip recommended products (these appear in "Continue shopping deals" section)
       if (productUrl.includes('AGH3Col') || productUrl.includes('dealz_cs')) {
         return;
       }
 
-      if (productUrl.includes('amazon.com/gp/r.html')) {
+      if (productUrl.includes('/gp/r.html')) {
         // This is a redirect URL, extract the actual product URL
         const urlMatch = productUrl.match(/U=([^&]+)/);
         if (urlMatch) {
@@ -203,12 +604,13 @@ export class EmailParser {
       // Look for quantity nearby
       let quantity = 1;
       const parent = $link.closest('td, div');
-      const quantityText = parent.find('*:contains("Quantity")').text();
-      const qtyMatch = quantityText.match(/Quantity:\s*(\d+)/i);
+      const qtyMatch = parent.text().match(QUANTITY_PATTERN);
       if (qtyMatch) {
         quantity = parseInt(qtyMatch[1], 10);
       }
 
+      const { price, discount } = this.readItemAmounts(parent.text());
+
       // Check if this item already exists
       const existingItem = items.find(item =>
         item.name === name || item.productUrl === productUrl
@@ -219,6 +621,9 @@ export class EmailParser {
           name,
           quantity,
           productUrl: productUrl || undefined,
+          asin: extractAsin(productUrl) || undefined,
+          price,
+          discount,
         });
       }
     });
@@ -227,14 +632,14 @@ export class EmailParser {
     if (items.length === 0) {
       $('li, div').filter(function() {
         const text = $(this).text();
-        return text.includes('Quantity:') && !text.includes('Grand Total');
+        return QUANTITY_PATTERN.test(text) && !text.includes('Grand Total');
       }).each((_, elem) => {
         const text = $(elem).text();
         const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
 
         if (lines.length >= 2) {
           const name = lines[0];
-          const qtyMatch = text.match(/Quantity:\s*(\d+)/i);
+          const qtyMatch = text.match(QUANTITY_PATTERN);
           const quantity = qtyMatch ? parseInt(qtyMatch[1], 10) : 1;
 
           items.push({
@@ -249,57 +654,156 @@ export class EmailParser {
   }
 
   /**
-   * Extract delivery address (optional)
+   * Read an item's unit price and promotion from the text of its block. The price is
+   * only taken when the block shows exactly one amount besides the promotion.
    */
-  private extractDeliveryAddress($: cheerio.CheerioAPI): string | undefined {
-    // Look for address-like patterns
-    const addressText = $('*:contains("MADISON, TN"), *:contains("Delivering to")')
-      .first()
-      .text()
-      .trim();
+  private readItemAmounts(block: string): { price?: Money; discount?: Money } {
+    const used: Array<[number, number]> = [];
+    const discounts = this.findSummaryAmounts(block, SUMMARY_LABELS.discounts, used, true);
+
+    // Blank out the promotion lines before looking for the price
+    let rest = block;
+    for (const [from, to] of used) {
+      rest = rest.substring(0, from) + ' '.repeat(to - from) + rest.substring(to);
+    }
+    const amounts = rest.match(new RegExp(MONEY_PATTERN.source, 'g'));
 
-    return addressText || undefined;
+    return {
+      price: amounts && amounts.length === 1 ? parseMoney(amounts[0]) ?? undefined : undefined,
+      discount: discounts.length > 0 ? Money.sum(discounts) : undefined,
+    };
+  }
+
+  /**
+   * Extract the delivery address (optional), used to pick the tax jurisdiction
+   */
+  private extractDeliveryAddress(content: string): string | undefined {
+    const labeled = content.match(DELIVERY_ADDRESS_PATTERN);
+    if (labeled) {
+      return labeled[1].replace(/\s+/g, ' ').trim();
+    }
+
+    const line = content.match(ADDRESS_LINE_PATTERN);
+    return line ? line[0].trim() : undefined;
+  }
+
+  /**
+   * Find how the order was paid: the cards charged (each by its last four digits) and
+   * the gift card and reward points lines. A single card is charged the grand total;
+   * with several, each card's amount follows it in the email, and one card without an
+   * amount is charged the rest.
+   */
+  private extractPayments(content: string, grandTotal: Money): PaymentMethod[] {
+    const cards: PaymentMethod[] = [];
+    const unpriced: PaymentMethod[] = [];
+
+    for (const match of content.matchAll(new RegExp(PAYMENT_LAST4_PATTERN.source, 'gi'))) {
+      const last4 = match[1] || match[2];
+      if (cards.some((card) => card.last4 === last4)) {
+        continue;
+      }
+
+      const end = match.index! + match[0].length;
+      const following = content.substring(end, end + 40).match(/^\s*[:\-\u2013]?\s*([^\n]*)/)![1];
+      const amount = following.search(MONEY_PATTERN) === 0 ? parseMoney(following) : null;
+      const brand = content.substring(Math.max(0, match.index! - 40), match.index!).match(CARD_BRAND_PATTERN)?.[1];
+      const card: PaymentMethod = {
+        type: 'card',
+        label: `${brand || 'Card'} ending in ${last4}`,
+        last4,
+        amount: amount ?? Money.ZERO,
+      };
+      cards.push(card);
+      if (!amount) {
+        unpriced.push(card);
+      }
+    }
+
+    if (cards.length === 1) {
+      cards[0].amount = grandTotal;
+    } else if (unpriced.length === 1) {
+      const priced = cards.filter((card) => card !== unpriced[0]);
+      unpriced[0].amount = grandTotal.subtract(Money.sum(priced.map((card) => card.amount)));
+    }
+    if (cards.length > 1 && !Money.sum(cards.map((card) => card.amount)).equals(grandTotal)) {
+      logger.warn(`Could not tell how much each card paid, charging ${cards[0].label} the grand total`);
+      cards.splice(1);
+      cards[0].amount = grandTotal;
+    }
+
+    const used: Array<[number, number]> = [];
+    const credits: PaymentMethod[] = [];
+    const labels: [PaymentType, string, string[]][] = [
+      ['gift-card', 'Gift card', GIFT_CARD_LABELS],
+      ['reward-points', 'Reward points', REWARD_POINTS_LABELS],
+    ];
+    for (const [type, label, paymentLabels] of labels) {
+      const [amount] = this.findSummaryAmounts(content, paymentLabels, used, false);
+      if (amount && !amount.isZero()) {
+        credits.push({ type, label, amount });
+      }
+    }
+
+    return [...cards, ...credits];
+  }
+
+  /**
+   * Extract items from plain text: an item name line followed by "Quantity: X",
+   * optionally followed by a line with the unit price
+   */
+  private extractItemsFromText(text: string): AmazonOrderItem[] {
+    const items: AmazonOrderItem[] = [];
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+
+      // Look for lines followed by "Quantity: X"
+      if (line && i + 1 < lines.length) {
+        const nextLine = lines[i + 1].trim();
+        const qtyMatch = nextLine.match(QUANTITY_PATTERN);
+
+        if (qtyMatch && !line.includes('Grand Total') && !line.includes('Order #')) {
+          // The item's own lines run until the next blank line
+          const itemLines: string[] = [];
+          for (let j = i + 2; j < lines.length && lines[j].trim(); j++) {
+            itemLines.push(lines[j].trim());
+          }
+          const priceLine = itemLines.find((itemLine) => PRICE_LINE_PATTERN.test(itemLine));
+          const { discount } = this.readItemAmounts(itemLines.join('\n'));
+
+          items.push({
+            name: line,
+            quantity: parseInt(qtyMatch[1], 10),
+            price: priceLine ? parseMoney(priceLine) ?? undefined : undefined,
+            discount,
+          });
+        }
+      }
+    }
+
+    return items;
   }
 
   /**
    * Fallback: Parse from plain text email
    */
-  private parseFromText(text: string): AmazonOrder | null {
+  private parseFromText(text: string, marketplace: Marketplace): AmazonOrder | null {
     try {
       // Extract order number
-      const orderMatch = text.match(/Order\s*#\s*(\d{3}-\d{7}-\d{7})/);
-      if (!orderMatch) {
+      const orderNumber = this.matchOrderNumber(text);
+      if (!orderNumber) {
         return null;
       }
-      const orderNumber = orderMatch[1];
 
       // Extract grand total
-      const totalMatch = text.match(/Grand Total[:\s]*\$?\s*([\d,]+\.\d{2})/i);
-      if (!totalMatch) {
+      const grandTotal = this.findLabeledAmount(text, marketplace.grandTotalLabels);
+      if (grandTotal === null) {
         return null;
       }
-      const grandTotal = parseFloat(totalMatch[1].replace(/,/g, ''));
 
       // Extract items (this is more challenging with plain text)
-      const items: AmazonOrderItem[] = [];
-      const lines = text.split('\n');
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-
-        // Look for lines followed by "Quantity: X"
-        if (line && i + 1 < lines.length) {
-          const nextLine = lines[i + 1].trim();
-          const qtyMatch = nextLine.match(/Quantity:\s*(\d+)/i);
-
-          if (qtyMatch && !line.includes('Grand Total') && !line.includes('Order #')) {
-            items.push({
-              name: line,
-              quantity: parseInt(qtyMatch[1], 10),
-            });
-          }
-        }
-      }
+      const items = this.extractItemsFromText(text);
 
       if (items.length === 0) {
         return null;
@@ -309,7 +813,8 @@ export class EmailParser {
         orderNumber,
         grandTotal,
         items,
-        orderDate: new Date(),
+        marketplace: marketplace.domain,
+        currency: marketplace.currency,
       };
     } catch (error) {
       logger.error('Error parsing plain text email', error);
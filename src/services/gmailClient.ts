@@ -0,0 +1,126 @@
+import axios, { AxiosError } from 'axios';
+import logger from '../utils/logger';
+import { GmailClient, GmailHistory } from '../types';
+
+/**
+ * Thrown when the start history ID is too old for Gmail to list changes since it
+ */
+export class HistoryExpiredError extends Error {
+  constructor(public readonly historyId: string) {
+    super(`Gmail history ${historyId} is no longer available`);
+    this.name = 'HistoryExpiredError';
+  }
+}
+
+export interface GmailCredentials {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+}
+
+interface HistoryResponse {
+  history?: { messagesAdded?: { message: { id: string } }[] }[];
+  nextPageToken?: string;
+  historyId: string;
+}
+
+/**
+ * Gmail REST API client, authorized with an OAuth refresh token
+ */
+export class GmailApiClient implements GmailClient {
+  private accessToken: string | null = null;
+  private accessTokenExpiresAt = 0;
+
+  constructor(
+    private readonly credentials: GmailCredentials,
+    private readonly baseUrl: string = 'https://gmail.googleapis.com/gmail/v1/users/me',
+    private readonly tokenUrl: string = 'https://oauth2.googleapis.com/token'
+  ) {}
+
+  /**
+   * List the messages added since a history ID, following every page
+   */
+  async listNewMessages(startHistoryId: string, labelId?: string): Promise<GmailHistory> {
+    const messageIds: string[] = [];
+    let pageToken: string | undefined;
+    let historyId = startHistoryId;
+
+    do {
+      let data: HistoryResponse;
+      try {
+        data = await this.get<HistoryResponse>('/history', {
+          startHistoryId,
+          historyTypes: 'messageAdded',
+          labelId,
+          pageToken,
+        });
+      } catch (error) {
+        if (error instanceof AxiosError && error.response?.status === 404) {
+          throw new HistoryExpiredError(startHistoryId);
+        }
+        throw error;
+      }
+
+      for (const record of data.history || []) {
+        for (const added of record.messagesAdded || []) {
+          if (!messageIds.includes(added.message.id)) {
+            messageIds.push(added.message.id);
+          }
+        }
+      }
+
+      historyId = data.historyId;
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return { messageIds, historyId };
+  }
+
+  /**
+   * Fetch a message in raw RFC 822 form
+   */
+  async getRawMessage(messageId: string): Promise<Buffer> {
+    const data = await this.get<{ raw: string }>(`/messages/${encodeURIComponent(messageId)}`, {
+      format: 'raw',
+    });
+    return Buffer.from(data.raw, 'base64url');
+  }
+
+  private async get<T>(path: string, params: Record<string, string | undefined>): Promise<T> {
+    const response = await axios.get<T>(`${this.baseUrl}${path}`, {
+      params,
+      headers: { Authorization: `Bearer ${await this.getAccessToken()}` },
+      timeout: 30000,
+    });
+    return response.data;
+  }
+
+  /**
+   * Exchange the refresh token for an access token, reusing it until shortly before it expires
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    logger.debug('Refreshing Gmail access token');
+    const response = await axios.post(
+      this.tokenUrl,
+      new URLSearchParams({
+        client_id: this.credentials.clientId,
+        client_secret: this.credentials.clientSecret,
+        refresh_token: this.credentials.refreshToken,
+        grant_type: 'refresh_token',
+      }).toString(),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: 10000,
+      }
+    );
+
+    const accessToken: string = response.data.access_token;
+    this.accessToken = accessToken;
+    this.accessTokenExpiresAt = Date.now() + ((response.data.expires_in || 3600) - 60) * 1000;
+    return accessToken;
+  }
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import logger from '../utils/logger';
+import { GmailWatcher } from './gmailWatcher';
+import { mailImporter } from './mailImporter';
+import { GmailClient, GmailHistory } from '../types';
+
+const RAW_EMAIL = Buffer.from(
+  ['From: auto-confirm@amazon.com', 'Subject: Ordered: "USB-C Cable"', 'Content-Type: text/plain', '', 'Order Total: $1.00'].join(
+    '\r\n'
+  )
+);
+
+function envelope(data: unknown) {
+  return { message: { data: Buffer.from(JSON.stringify(data)).toString('base64') } };
+}
+
+function notification(historyId: string) {
+  return { emailAddress: 'me@example.com', historyId };
+}
+
+/** Stand-in Gmail API client returning the given history for every listing */
+function stubClient(history: GmailHistory) {
+  return {
+    listNewMessages: jest.fn(async () => history),
+    getRawMessage: jest.fn(async () => RAW_EMAIL),
+  } satisfies GmailClient;
+}
+
+describe('GmailWatcher', () => {
+  const importPayload = jest.spyOn(mailImporter, 'importPayload');
+  let dir: string;
+
+  beforeAll(() => {
+    logger.silent = true;
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-watcher-'));
+    importPayload.mockResolvedValue({ success: true, status: 'success', message: 'Imported' });
+  });
+
+  afterEach(() => {
+    importPayload.mockReset();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const watcherFor = (client: GmailClient) => new GmailWatcher(client, path.join(dir, 'gmail-state.json'));
+
+  describe('parseNotification', () => {
+    it('decodes a Pub/Sub push envelope', () => {
+      const watcher = watcherFor(stubClient({ messageIds: [], historyId: '1' }));
+      expect(watcher.parseNotification(envelope({ emailAddress: 'me@example.com', historyId: 12345 }))).toEqual(
+        notification('12345')
+      );
+    });
+
+    it.each([
+      ['a non-numeric history ID', envelope({ emailAddress: 'me@example.com', historyId: 'abc' })],
+      ['a missing history ID', envelope({ emailAddress: 'me@example.com' })],
+      ['data that is not JSON', { message: { data: 'not base64 json' } }],
+      ['no message', {}],
+    ])('rejects %s', (_, body) => {
+      const watcher = watcherFor(stubClient({ messageIds: [], historyId: '1' }));
+      expect(watcher.parseNotification(body)).toBeNull();
+    });
+  });
+
+  it('starts from the first notification without listing history', async () => {
+    const client = stubClient({ messageIds: ['m1'], historyId: '200' });
+    const watcher = watcherFor(client);
+
+    expect(await watcher.handleNotification(notification('100'))).toEqual([]);
+    expect(watcher.getHistoryId()).toBe('100');
+    expect(client.listNewMessages).not.toHaveBeenCalled();
+  });
+
+  it('processes new messages and advances the history ID', async () => {
+    const client = stubClient({ messageIds: ['m1', 'm2'], historyId: '200' });
+    const watcher = watcherFor(client);
+    await watcher.handleNotification(notification('100'));
+
+    const results = await watcher.handleNotification(notification('150'));
+
+    expect(results).toHaveLength(2);
+    expect(client.listNewMessages).toHaveBeenCalledWith('100', undefined);
+    expect(client.getRawMessage.mock.calls).toEqual([['m1'], ['m2']]);
+    expect(watcher.getHistoryId()).toBe('200');
+  });
+
+  it('ignores notifications that were already processed', async () => {
+    const client = stubClient({ messageIds: ['m1'], historyId: '200' });
+    const watcher = watcherFor(client);
+    await watcher.handleNotification(notification('100'));
+
+    expect(await watcher.handleNotification(notification('90'))).toEqual([]);
+    expect(client.listNewMessages).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed message with the next notification', async () => {
+    const client = stubClient({ messageIds: ['m1', 'm2'], historyId: '200' });
+    const watcher = watcherFor(client);
+    await watcher.handleNotification(notification('100'));
+    importPayload
+      .mockResolvedValueOnce({ success: false, status: 'error', message: 'YNAB is down' })
+      .mockResolvedValueOnce({ success: true, status: 'success', message: 'Imported' });
+
+    await watcher.handleNotification(notification('150'));
+    client.listNewMessages.mockResolvedValue({ messageIds: ['m3'], historyId: '300' });
+    await watcher.handleNotification(notification('250'));
+
+    expect(client.getRawMessage.mock.calls).toEqual([['m1'], ['m2'], ['m1'], ['m3']]);
+    expect(watcher.getHistoryId()).toBe('300');
+  });
+
+  it('keeps retrying a message while it fails', async () => {
+    const client = stubClient({ messageIds: ['m1'], historyId: '200' });
+    client.getRawMessage.mockRejectedValue(new Error('Gmail is down'));
+    const watcher = watcherFor(client);
+    await watcher.handleNotification(notification('100'));
+
+    const [first] = await watcher.handleNotification(notification('150'));
+    client.listNewMessages.mockResolvedValue({ messageIds: [], historyId: '300' });
+    const [second] = await watcher.handleNotification(notification('250'));
+
+    expect(first.status).toBe('error');
+    expect(second.status).toBe('error');
+    expect(client.getRawMessage.mock.calls).toEqual([['m1'], ['m1']]);
+  });
+});
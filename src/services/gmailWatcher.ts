@@ -0,0 +1,202 @@
+import path from 'path';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { parseMimeMessage } from '../utils/mime';
+import { GmailApiClient, HistoryExpiredError } from './gmailClient';
+import { emailClassifier } from './emailClassifier';
+import { mailImporter } from './mailImporter';
+import { EmailType, EmailWebhookPayload, GmailClient, ProcessResult } from '../types';
+
+interface GmailState {
+  historyId?: string;
+  emailAddress?: string;
+  retryMessageIds?: string[]; // Messages that failed, retried with the next notification
+  updatedAt?: string; // ISO timestamp
+}
+
+/** A Pub/Sub push request; message.data is the base64 Gmail notification */
+interface PubSubPushEnvelope {
+  message?: { data?: string; messageId?: string };
+  subscription?: string;
+}
+
+interface GmailNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+/**
+ * Processes Gmail push notifications: lists the messages added since the last
+ * processed history ID and runs the Amazon emails among them through the order processor
+ */
+export class GmailWatcher {
+  private store: JsonFileStore<GmailState>;
+  private client: GmailClient | null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    client?: GmailClient,
+    filePath: string = path.join(config.dataDir, 'gmail-state.json')
+  ) {
+    this.client = client || null;
+    this.store = new JsonFileStore<GmailState>(filePath, () => ({}));
+  }
+
+  /**
+   * Decode a Pub/Sub push envelope into the Gmail notification it carries,
+   * or null if it isn't one
+   */
+  parseNotification(body: unknown): GmailNotification | null {
+    const envelope = body as PubSubPushEnvelope | undefined;
+    const data = envelope?.message?.data;
+    if (typeof data !== 'string') {
+      return null;
+    }
+
+    try {
+      const decoded = JSON.parse(Buffer.from(data, 'base64').toString('utf-8'));
+      // History IDs are unsigned integers, compared as BigInt
+      if (!decoded.emailAddress || !/^\d+$/.test(String(decoded.historyId ?? ''))) {
+        return null;
+      }
+      return { emailAddress: decoded.emailAddress, historyId: String(decoded.historyId) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Process a notification. Notifications are handled one at a time so the same
+   * history is never listed twice.
+   */
+  handleNotification(notification: GmailNotification): Promise<ProcessResult[]> {
+    const run = this.queue.then(() => this.processHistory(notification));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Get the last processed history ID
+   */
+  getHistoryId(): string | undefined {
+    return this.store.read().historyId;
+  }
+
+  private async processHistory(notification: GmailNotification): Promise<ProcessResult[]> {
+    const { historyId: startHistoryId } = this.store.read();
+
+    // Without a starting point there is nothing to list yet; start from this notification
+    if (!startHistoryId) {
+      logger.info(`No Gmail history recorded yet, starting from history ${notification.historyId}`);
+      this.saveHistoryId(notification);
+      return [];
+    }
+
+    if (BigInt(notification.historyId) <= BigInt(startHistoryId)) {
+      logger.debug(`Gmail history ${notification.historyId} was already processed`);
+      return [];
+    }
+
+    let history;
+    try {
+      history = await this.getClient().listNewMessages(startHistoryId, config.gmail.labelId);
+    } catch (error) {
+      if (error instanceof HistoryExpiredError) {
+        logger.warn(`${error.message}; skipping ahead to history ${notification.historyId}`);
+        this.saveHistoryId(notification);
+        return [];
+      }
+      throw error;
+    }
+
+    logger.info(`Gmail history ${startHistoryId}..${history.historyId}: ${history.messageIds.length} new message(s)`);
+
+    // Gmail won't list messages before the new history ID again, so failed messages
+    // are kept and retried with the next notification
+    const retry = this.store.read().retryMessageIds || [];
+    if (retry.length > 0) {
+      logger.info(`Retrying ${retry.length} Gmail message(s) that failed before`);
+    }
+    const messageIds = [...new Set([...retry, ...history.messageIds])];
+
+    const results: ProcessResult[] = [];
+    const failed: string[] = [];
+    for (const messageId of messageIds) {
+      const result = await this.processMessage(messageId);
+      results.push(result);
+      if (result.status === 'error') {
+        failed.push(messageId);
+      }
+    }
+
+    this.saveHistoryId({ ...notification, historyId: history.historyId }, failed);
+    return results;
+  }
+
+  /**
+   * Fetch a message and process it if it is an Amazon email from an accepted sender
+   */
+  private async processMessage(messageId: string): Promise<ProcessResult> {
+    try {
+      const raw = await this.getClient().getRawMessage(messageId);
+      const result = await mailImporter.importPayload(parseMimeMessage(raw), (payload) => this.classify(payload));
+      logger.info(`Gmail message ${messageId}: ${result.message}`);
+      return result;
+    } catch (error) {
+      logger.error(`Error processing Gmail message ${messageId}`, error);
+      return {
+        success: false,
+        status: 'error',
+        message: `Error processing Gmail message ${messageId}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Classify a message. With GMAIL_SENDERS set, only those senders are accepted
+   * (e.g. a forwarding address); otherwise the sender must be an Amazon storefront.
+   */
+  private classify(payload: EmailWebhookPayload): EmailType {
+    const senders = config.gmail.senders;
+    if (senders.length === 0) {
+      return emailClassifier.classify(payload);
+    }
+
+    const from = payload.from.toLowerCase();
+    if (!senders.some((sender) => from.includes(sender))) {
+      logger.debug(`Email from ${payload.from} is not from an accepted sender`);
+      return 'unknown';
+    }
+    return emailClassifier.classifyContent(payload.subject, payload.html, payload.text);
+  }
+
+  private saveHistoryId(notification: GmailNotification, retryMessageIds?: string[]): void {
+    this.store.update((data) => {
+      data.historyId = notification.historyId;
+      data.emailAddress = notification.emailAddress;
+      if (retryMessageIds) {
+        data.retryMessageIds = retryMessageIds.length > 0 ? retryMessageIds : undefined;
+      }
+      data.updatedAt = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Create the Gmail API client from the configured credentials on first use
+   */
+  private getClient(): GmailClient {
+    if (!this.client) {
+      const { clientId, clientSecret, refreshToken } = config.gmail;
+      if (!clientId || !clientSecret || !refreshToken) {
+        throw new Error(
+          'Gmail API is not configured (set GMAIL_CLIENT_ID, GMAIL_CLIENT_SECRET and GMAIL_REFRESH_TOKEN)'
+        );
+      }
+      this.client = new GmailApiClient({ clientId, clientSecret, refreshToken });
+    }
+    return this.client;
+  }
+}
+
+export const gmailWatcher = new GmailWatcher();
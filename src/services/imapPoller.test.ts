@@ -0,0 +1,129 @@
+import { ImapFlow } from 'imapflow';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { ImapPoller } from './imapPoller';
+import { mailImporter } from './mailImporter';
+import { ProcessResult } from '../types';
+
+const AMAZON_EMAIL = [
+  'From: "Amazon.com" <auto-confirm@amazon.com>',
+  'To: me@example.com',
+  'Subject: Ordered: "USB-C Cable"',
+  'Message-ID: <order-1@amazon.com>',
+  'Content-Type: text/plain',
+  '',
+  'Order #123-4567890-1234567',
+  'Order Total: $12.34',
+].join('\r\n');
+
+const OTHER_EMAIL = [
+  'From: Newsletter <news@example.com>',
+  'To: me@example.com',
+  'Subject: Weekly deals',
+  'Content-Type: text/plain',
+  '',
+  'Nothing to import here',
+].join('\r\n');
+
+const options = {
+  host: 'imap.example.com',
+  port: 993,
+  secure: true,
+  user: 'me@example.com',
+  password: 'secret',
+  mailbox: 'INBOX',
+  processedFolder: 'Amazon/Imported',
+  pollIntervalMinutes: 0,
+};
+
+/** Stand-in for ImapFlow serving the given unread messages by UID */
+function stubClient(messages: Record<number, string>) {
+  return {
+    connect: jest.fn(async () => undefined),
+    list: jest.fn(async () => [{ path: 'INBOX' }, { path: 'Amazon/Imported' }]),
+    mailboxCreate: jest.fn(async () => ({})),
+    getMailboxLock: jest.fn(async () => ({ release: jest.fn() })),
+    search: jest.fn(async () => Object.keys(messages).map(Number)),
+    fetchOne: jest.fn(async (uid: string) => ({ source: Buffer.from(messages[Number(uid)]) })),
+    messageFlagsAdd: jest.fn(async () => true),
+    messageMove: jest.fn(async () => ({})),
+    logout: jest.fn(async () => undefined),
+    close: jest.fn(),
+  };
+}
+
+function pollerFor(client: ReturnType<typeof stubClient>): ImapPoller {
+  return new ImapPoller(options, () => client as unknown as ImapFlow);
+}
+
+describe('ImapPoller', () => {
+  const importPayload = jest.spyOn(mailImporter, 'importPayload');
+
+  beforeAll(() => {
+    logger.silent = true;
+  });
+
+  afterEach(() => {
+    importPayload.mockReset();
+    config.dryRun = false;
+  });
+
+  it('only searches unread mail from Amazon senders', async () => {
+    const client = stubClient({});
+
+    await pollerFor(client).poll();
+
+    const [query] = client.search.mock.calls[0] as unknown as [{ seen: boolean; or: { from: string }[] }];
+    expect(query.seen).toBe(false);
+    expect(query.or).toContainEqual({ from: 'amazon.com' });
+    expect(query.or).toContainEqual({ from: 'amazon.de' });
+  });
+
+  it('marks imported messages read and moves them to the processed folder', async () => {
+    const result: ProcessResult = { success: true, status: 'success', orderNumber: '123-4567890-1234567', message: 'Imported' };
+    importPayload.mockResolvedValue(result);
+    const client = stubClient({ 7: AMAZON_EMAIL });
+
+    const results = await pollerFor(client).poll();
+
+    expect(results).toEqual([result]);
+    expect(client.messageFlagsAdd).toHaveBeenCalledWith('7', ['\\Seen'], { uid: true });
+    expect(client.messageMove).toHaveBeenCalledWith('7', 'Amazon/Imported', { uid: true });
+    expect(client.logout).toHaveBeenCalled();
+  });
+
+  it('leaves messages that are not Amazon emails unread', async () => {
+    const client = stubClient({ 3: OTHER_EMAIL });
+
+    const results = await pollerFor(client).poll();
+
+    expect(results).toEqual([]);
+    expect(importPayload).not.toHaveBeenCalled();
+    expect(client.messageFlagsAdd).not.toHaveBeenCalled();
+    expect(client.messageMove).not.toHaveBeenCalled();
+  });
+
+  it('leaves messages that fail unread so the next poll retries them', async () => {
+    importPayload.mockResolvedValue({ success: false, status: 'error', message: 'YNAB is down' });
+    const client = stubClient({ 5: AMAZON_EMAIL });
+
+    const results = await pollerFor(client).poll();
+
+    expect(results[0].status).toBe('error');
+    expect(client.messageFlagsAdd).not.toHaveBeenCalled();
+    expect(client.messageMove).not.toHaveBeenCalled();
+  });
+
+  it('leaves messages unread in a dry run', async () => {
+    config.dryRun = true;
+    const result: ProcessResult = { success: true, status: 'success', dryRun: true, message: 'Dry run' };
+    importPayload.mockResolvedValue(result);
+    const client = stubClient({ 1: AMAZON_EMAIL });
+
+    const results = await pollerFor(client).poll();
+
+    expect(results).toEqual([result]);
+    expect(client.messageFlagsAdd).not.toHaveBeenCalled();
+    expect(client.messageMove).not.toHaveBeenCalled();
+  });
+});
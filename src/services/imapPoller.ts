@@ -0,0 +1,164 @@
+import { ImapFlow } from 'imapflow';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { parseMimeMessage } from '../utils/mime';
+import { MARKETPLACES } from '../utils/marketplace';
+import { emailClassifier } from './emailClassifier';
+import { mailImporter } from './mailImporter';
+import { Config, ProcessResult } from '../types';
+
+/**
+ * Polls an IMAP mailbox for unread Amazon emails, as an alternative to
+ * inbound-parse webhooks. Processed messages are marked read and optionally moved.
+ */
+export class ImapPoller {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly options: Config['imap'] = config.imap,
+    private readonly createClient: (options: Config['imap']) => ImapFlow = (imap) =>
+      new ImapFlow({
+        host: imap.host!,
+        port: imap.port,
+        secure: imap.secure,
+        auth: { user: imap.user || '', pass: imap.password || '' },
+        logger: false,
+      })
+  ) {}
+
+  /**
+   * Whether a mailbox is configured
+   */
+  isEnabled(): boolean {
+    return Boolean(this.options.host);
+  }
+
+  /**
+   * Poll now and then on the configured interval
+   */
+  start(): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const run = () => this.poll().catch((error) => logger.error('Error polling IMAP mailbox', error));
+
+    logger.info(
+      `Polling ${this.options.mailbox} on ${this.options.host} every ${this.options.pollIntervalMinutes} minute(s)`
+    );
+    void run();
+
+    if (this.options.pollIntervalMinutes > 0) {
+      this.timer = setInterval(run, this.options.pollIntervalMinutes * 60 * 1000);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Process the mailbox's unread messages. Returns the results of the Amazon emails
+   * among them; a poll that starts while another is running does nothing.
+   */
+  async poll(): Promise<ProcessResult[]> {
+    if (this.polling) {
+      logger.debug('Previous IMAP poll still running, skipping');
+      return [];
+    }
+
+    this.polling = true;
+    const client = this.createClient(this.options);
+
+    try {
+      await client.connect();
+      if (this.options.processedFolder) {
+        await this.ensureFolder(client, this.options.processedFolder);
+      }
+
+      const lock = await client.getMailboxLock(this.options.mailbox);
+      try {
+        // Only unread mail from the Amazon storefronts, so the rest of the inbox isn't fetched
+        const uids =
+          (await client.search(
+            { seen: false, or: MARKETPLACES.map((marketplace) => ({ from: marketplace.domain })) },
+            { uid: true }
+          )) || [];
+        logger.debug(`${uids.length} unread Amazon message(s) in ${this.options.mailbox}`);
+
+        const results: ProcessResult[] = [];
+        for (const uid of uids) {
+          const result = await this.processMessage(client, uid);
+          if (result) {
+            results.push(result);
+          }
+        }
+        return results;
+      } finally {
+        lock.release();
+      }
+    } finally {
+      this.polling = false;
+      await client.logout().catch(() => client.close());
+    }
+  }
+
+  /**
+   * Process one message. Messages that aren't Amazon emails are left untouched, and
+   * messages that fail stay unread so the next poll retries them. A dry run leaves
+   * every message as it was.
+   */
+  private async processMessage(client: ImapFlow, uid: number): Promise<ProcessResult | null> {
+    // Fetching the source doesn't mark the message as read
+    const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+    if (!message || !message.source) {
+      logger.warn(`IMAP message ${uid} has no content, skipping`);
+      return null;
+    }
+
+    const payload = parseMimeMessage(message.source);
+    if (emailClassifier.classify(payload) === 'unknown') {
+      logger.debug(`IMAP message ${uid} ("${payload.subject}") is not a supported Amazon email`);
+      return null;
+    }
+
+    const result = await mailImporter.importPayload(payload);
+    logger.info(`IMAP message ${uid}: ${result.message}`);
+
+    if (result.status === 'error') {
+      return result;
+    }
+    if (result.dryRun || config.dryRun) {
+      logger.info(`Dry run: leaving IMAP message ${uid} unread`);
+      return result;
+    }
+
+    await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+    if (this.options.processedFolder) {
+      await client.messageMove(String(uid), this.options.processedFolder, { uid: true });
+    }
+
+    return result;
+  }
+
+  /**
+   * Create the processed folder if the mailbox doesn't have it yet
+   */
+  private async ensureFolder(client: ImapFlow, folder: string): Promise<void> {
+    const folders = await client.list();
+    if (!folders.some((mailbox) => mailbox.path === folder)) {
+      logger.info(`Creating IMAP folder ${folder}`);
+      await client.mailboxCreate(folder);
+    }
+  }
+}
+
+export const imapPoller = new ImapPoller();
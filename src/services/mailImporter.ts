@@ -0,0 +1,79 @@
+import logger from '../utils/logger';
+import { config } from '../config';
+import { isMbox, parseMimeMessage, splitMbox } from '../utils/mime';
+import { emailClassifier } from './emailClassifier';
+import { orderLedger } from './orderLedger';
+import { orderProcessor } from './orderProcessor';
+import { EmailType, EmailWebhookPayload, ProcessOptions, ProcessResult } from '../types';
+
+/**
+ * Imports raw RFC 822 messages (.eml files, mbox archives, messages fetched from a
+ * mailbox), using the Message-ID to skip messages that were already processed
+ */
+export class MailImporter {
+  /**
+   * Import a raw message, or every message of an mbox archive
+   */
+  async importRaw(raw: Buffer | string, options: ProcessOptions = {}): Promise<ProcessResult[]> {
+    if (!isMbox(raw)) {
+      return [await this.importPayload(parseMimeMessage(raw), undefined, options)];
+    }
+
+    const messages = splitMbox(raw);
+    logger.info(`Importing ${messages.length} message(s) from mbox`);
+
+    const results: ProcessResult[] = [];
+    for (const message of messages) {
+      results.push(await this.importPayload(parseMimeMessage(message), undefined, options));
+    }
+    return results;
+  }
+
+  /**
+   * Process a parsed message. Messages that aren't supported Amazon emails are ignored.
+   *
+   * @param classify - Decides the email type; by default the sender must be an Amazon storefront
+   * @param options - With dryRun, the message is processed without posting and is not recorded
+   */
+  async importPayload(
+    payload: EmailWebhookPayload,
+    classify: (payload: EmailWebhookPayload) => EmailType = (email) => emailClassifier.classify(email),
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    const dryRun = options.dryRun ?? config.dryRun;
+    const { messageId } = payload;
+
+    const processed = messageId ? orderLedger.getMessage(messageId) : undefined;
+    if (processed) {
+      logger.info(`Message ${messageId} was already processed on ${processed.createdAt}, skipping`);
+      return {
+        success: true,
+        status: 'duplicate',
+        orderNumber: processed.orderNumber,
+        message: `Message ${messageId} has already been processed`,
+      };
+    }
+
+    const emailType = classify(payload);
+    if (emailType === 'unknown') {
+      logger.debug(`Message "${payload.subject}" is not a supported Amazon email`);
+      return { success: true, status: 'ignored', message: 'Not a supported Amazon email' };
+    }
+
+    logger.info(`Importing ${emailType} email "${payload.subject}"`);
+    const result = await orderProcessor.processEmail(emailType, payload.html, payload.text, payload.headers, {
+      dryRun,
+      to: payload.to,
+      from: payload.from,
+    });
+
+    // Failed messages are not recorded, so they can be imported again
+    if (messageId && !dryRun && result.status !== 'error') {
+      orderLedger.recordMessage({ messageId, orderNumber: result.orderNumber, status: result.status });
+    }
+
+    return result;
+  }
+}
+
+export const mailImporter = new MailImporter();
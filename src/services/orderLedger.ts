@@ -0,0 +1,129 @@
+import path from 'path';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { LedgerEntry, MessageLedgerEntry, RefundLedgerEntry } from '../types';
+
+interface LedgerData {
+  orders: Record<string, LedgerEntry>;
+  refunds?: Record<string, RefundLedgerEntry>; // Keyed by import_id
+  messages?: Record<string, MessageLedgerEntry>; // Keyed by Message-ID
+}
+
+/**
+ * Persistent record of which orders have already been imported into YNAB
+ */
+export class OrderLedger {
+  private store: JsonFileStore<LedgerData>;
+
+  constructor(filePath: string = path.join(config.dataDir, 'ledger.json')) {
+    this.store = new JsonFileStore<LedgerData>(filePath, () => ({ orders: {} }));
+  }
+
+  /**
+   * Check whether an order has already been imported
+   */
+  has(orderNumber: string): boolean {
+    return orderNumber in this.store.read().orders;
+  }
+
+  /**
+   * Get the ledger entry for an order
+   */
+  get(orderNumber: string): LedgerEntry | undefined {
+    return this.store.read().orders[orderNumber];
+  }
+
+  /**
+   * List all ledger entries, most recent first
+   */
+  list(): LedgerEntry[] {
+    return Object.values(this.store.read().orders).sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt)
+    );
+  }
+
+  /**
+   * Check whether a YNAB transaction belongs to an imported order
+   */
+  hasTransaction(transactionId: string): boolean {
+    return Object.values(this.store.read().orders).some(
+      (entry) =>
+        entry.transactionIds.includes(transactionId) ||
+        !!entry.matchedTransactionIds?.includes(transactionId)
+    );
+  }
+
+  /**
+   * Record the transactions created for an order
+   */
+  record(entry: Omit<LedgerEntry, 'createdAt'>): LedgerEntry {
+    const saved: LedgerEntry = { ...entry, createdAt: new Date().toISOString() };
+    this.store.update((data) => {
+      data.orders[entry.orderNumber] = saved;
+    });
+    return saved;
+  }
+
+  /**
+   * Apply a change to an existing ledger entry
+   */
+  update(orderNumber: string, mutator: (entry: LedgerEntry) => void): LedgerEntry | undefined {
+    let updated: LedgerEntry | undefined;
+    this.store.update((data) => {
+      const entry = data.orders[orderNumber];
+      if (entry) {
+        mutator(entry);
+        entry.updatedAt = new Date().toISOString();
+        updated = entry;
+      }
+    });
+    return updated;
+  }
+
+  /**
+   * Get a recorded refund by its import_id
+   */
+  getRefund(importId: string): RefundLedgerEntry | undefined {
+    return this.store.read().refunds?.[importId];
+  }
+
+  /**
+   * List the refunds recorded for an order
+   */
+  listRefunds(orderNumber: string): RefundLedgerEntry[] {
+    return Object.values(this.store.read().refunds || {}).filter(
+      (refund) => refund.orderNumber === orderNumber
+    );
+  }
+
+  /**
+   * Record the inflow transaction created for a refund
+   */
+  recordRefund(entry: Omit<RefundLedgerEntry, 'createdAt'>): RefundLedgerEntry {
+    const saved: RefundLedgerEntry = { ...entry, createdAt: new Date().toISOString() };
+    this.store.update((data) => {
+      data.refunds = { ...data.refunds, [entry.importId]: saved };
+    });
+    return saved;
+  }
+
+  /**
+   * Get a processed email by its Message-ID
+   */
+  getMessage(messageId: string): MessageLedgerEntry | undefined {
+    return this.store.read().messages?.[messageId];
+  }
+
+  /**
+   * Record that an email was processed, so the same message is not processed again
+   */
+  recordMessage(entry: Omit<MessageLedgerEntry, 'createdAt'>): MessageLedgerEntry {
+    const saved: MessageLedgerEntry = { ...entry, createdAt: new Date().toISOString() };
+    this.store.update((data) => {
+      data.messages = { ...data.messages, [entry.messageId]: saved };
+    });
+    return saved;
+  }
+}
+
+export const orderLedger = new OrderLedger();
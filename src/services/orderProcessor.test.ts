@@ -0,0 +1,162 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import logger from '../utils/logger';
+import { Money } from '../utils/money';
+import { config } from '../config';
+import { OrderLedger, orderLedger } from './orderLedger';
+import { OrderProcessor } from './orderProcessor';
+import { emailParser } from './emailParser';
+import { ynabClient } from './ynabClient';
+import { AmazonShipment, LedgerEntry, YNABTransactionInput } from '../types';
+
+const ORDER = '123-4567890-1234567';
+
+const shipment = (names: string[], charge: number): AmazonShipment => ({
+  orderNumber: ORDER,
+  shipDate: new Date('2024-01-05T12:00:00Z'),
+  items: names.map((name) => ({ name, quantity: 1 })),
+  charge: Money.fromDecimal(charge),
+});
+
+describe('OrderProcessor import IDs', () => {
+  const processor = new OrderProcessor();
+  const defaults = { chargePerShipment: config.chargePerShipment, dryRun: config.dryRun };
+  const posted: YNABTransactionInput[] = [];
+  let dir: string;
+  let ledger: OrderLedger;
+
+  beforeAll(() => {
+    logger.silent = true;
+    process.env.YNAB_BUDGET_ID ??= 'budget-id';
+    process.env.YNAB_ACCOUNT_ID ??= 'account-id';
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'order-processor-'));
+    ledger = new OrderLedger(path.join(dir, 'ledger.json'));
+    Object.assign(config, { chargePerShipment: true, dryRun: false });
+
+    // Keep the ledger in the temp directory
+    jest.spyOn(orderLedger, 'get').mockImplementation((orderNumber) => ledger.get(orderNumber));
+    jest
+      .spyOn(orderLedger, 'update')
+      .mockImplementation((orderNumber, mutator) => ledger.update(orderNumber, mutator));
+    jest
+      .spyOn(orderLedger, 'getRefund')
+      .mockImplementation((importId) => ledger.getRefund(importId));
+    jest
+      .spyOn(orderLedger, 'recordRefund')
+      .mockImplementation((entry) => ledger.recordRefund(entry));
+
+    posted.length = 0;
+    jest.spyOn(ynabClient, 'createTransaction').mockImplementation(async (transaction) => {
+      posted.push(transaction);
+      return `txn-${posted.length}`;
+    });
+    jest.spyOn(ynabClient, 'deleteTransaction').mockResolvedValue();
+    jest.spyOn(ynabClient, 'updateTransactionDate').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    Object.assign(config, defaults);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('shipments', () => {
+    // A fresh entry for each test, since the ledger keeps the objects it is given
+    const entry = (): Omit<LedgerEntry, 'createdAt'> => ({
+      orderNumber: ORDER,
+      grandTotal: 120,
+      orderDate: '2024-01-03T12:00:00.000Z',
+      transactionIds: ['txn-0'],
+      importIds: [`AMZ:${ORDER}`],
+      items: [
+        { name: 'USB-C Cable', amount: 20, importId: `AMZ:${ORDER}` },
+        { name: 'Phone Case', amount: 25, importId: `AMZ:${ORDER}` },
+        { name: 'Coffee Beans', amount: 75, importId: `AMZ:${ORDER}` },
+      ],
+    });
+
+    const processShipment = (parsed: AmazonShipment) => {
+      jest.spyOn(emailParser, 'parseShipmentEmail').mockReturnValue(parsed);
+      return processor.processShipment('', '');
+    };
+
+    it('gives every shipment and re-posted remainder its own import ID', async () => {
+      ledger.record(entry());
+
+      const first = await processShipment(shipment(['USB-C Cable'], 20));
+      const second = await processShipment(shipment(['Phone Case'], 25));
+
+      expect(first.importIds).toEqual([`AMZ:${ORDER}:s1`, `AMZ:${ORDER}:r1`]);
+      expect(second.importIds).toEqual([`AMZ:${ORDER}:s2`, `AMZ:${ORDER}:r2`]);
+      expect(ledger.get(ORDER)?.importIds).toEqual([
+        `AMZ:${ORDER}:s1`,
+        `AMZ:${ORDER}:s2`,
+        `AMZ:${ORDER}:r2`,
+      ]);
+      expect(new Set(posted.map((transaction) => transaction.import_id)).size).toBe(posted.length);
+    });
+
+    it("doesn't post a shipment again when its email is processed twice", async () => {
+      ledger.record(entry());
+
+      await processShipment(shipment(['USB-C Cable'], 20));
+      const count = posted.length;
+      const replay = await processShipment(shipment(['USB-C Cable'], 20));
+
+      expect(replay.status).toBe('duplicate');
+      expect(posted).toHaveLength(count);
+    });
+
+    it('only moves the last shipment when it matches the remaining transaction', async () => {
+      ledger.record(entry());
+
+      await processShipment(shipment(['USB-C Cable', 'Phone Case'], 45));
+      const count = posted.length;
+      const last = await processShipment(shipment(['Coffee Beans'], 75));
+
+      expect(last.status).toBe('success');
+      expect(posted).toHaveLength(count);
+      expect(ynabClient.updateTransactionDate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('refunds', () => {
+    const processRefund = (refundTotal: number, names: string[] = []) => {
+      jest.spyOn(emailParser, 'parseRefundEmail').mockReturnValue({
+        refund: {
+          orderNumber: ORDER,
+          refundTotal: Money.fromDecimal(refundTotal),
+          items: names.map((name) => ({ name, quantity: 1 })),
+        },
+        rawHtml: '',
+        rawText: '',
+      });
+      return processor.processRefund('', '');
+    };
+
+    it("doesn't post a refund again when its email is processed twice", async () => {
+      const first = await processRefund(12.34);
+      const replay = await processRefund(12.34);
+
+      expect(first.status).toBe('success');
+      expect(replay).toMatchObject({ status: 'duplicate', transactionIds: first.transactionIds });
+      expect(posted).toHaveLength(1);
+    });
+
+    it('posts other refunds of the same order with their own import ID', async () => {
+      const first = await processRefund(12.34);
+      const second = await processRefund(5);
+
+      expect(second.status).toBe('success');
+      expect(second.importIds![0]).not.toBe(first.importIds![0]);
+      expect(posted.map((transaction) => transaction.import_id)).toEqual([
+        first.importIds![0],
+        second.importIds![0],
+      ]);
+    });
+  });
+});
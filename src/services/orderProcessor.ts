@@ -1,67 +1,1173 @@
 import logger from '../utils/logger';
+import { formatDate } from '../utils/dates';
+import { Money } from '../utils/money';
+import { config } from '../config';
 import { emailParser } from './emailParser';
 import { priceFetcher } from './priceFetcher';
+import { priceCatalog } from './priceCatalog';
 import { taxCalculator } from './taxCalculator';
-import { ynabClient } from './ynabClient';
-import { AmazonOrderItem } from '../types';
+import { ynabClient, DuplicateImportError } from './ynabClient';
+import { orderLedger } from './orderLedger';
+import { categorizer } from './categorizer';
+import { currencyConverter } from './currencyConverter';
+import { reviewQueue } from './reviewQueue';
+import { accountRouter } from './accountRouter';
+import {
+  AmazonOrder,
+  AmazonOrderItem,
+  AmazonShipment,
+  CreatedTransaction,
+  CurrencyConversion,
+  EmailType,
+  ItemWithTax,
+  LedgerEntry,
+  LedgerItem,
+  PaymentMethod,
+  ProcessOptions,
+  ProcessResult,
+  ReviewRule,
+  RouteContext,
+  YNABRoute,
+  YNABTransactionInput,
+} from '../types';
+
+/** A payment posted to its own account rather than the order's */
+interface SplitPayment {
+  payment: PaymentMethod;
+  accountId: string;
+}
+
+/**
+ * Carries out the YNAB side of one processing run. In a dry run nothing is posted,
+ * updated or deleted; the transactions that would be created are collected instead.
+ * A run flagged for review collects its transactions the same way, for the review queue.
+ * Transactions go to the run's route, the default budget and account unless it is changed,
+ * or to another account of the route's budget when one is given. A run that matches existing
+ * transactions (new orders with matching enabled) updates a matching existing transaction in
+ * the route's account instead of creating one. Only order runs match, because only they can
+ * be held for review when the match is ambiguous.
+ */
+class TransactionRun {
+  readonly planned: YNABTransactionInput[] = [];
+  readonly posted: CreatedTransaction[] = []; // What actually reached YNAB
+  readonly reviewReasons: string[] = [];
+  route: YNABRoute = accountRouter.getDefaultRoute();
+
+  constructor(
+    readonly dryRun: boolean,
+    private readonly matchExisting: boolean = false
+  ) {}
+
+  /**
+   * Whether the planned transactions wait for review instead of being posted
+   */
+  get held(): boolean {
+    return !this.dryRun && this.reviewReasons.length > 0;
+  }
+
+  /**
+   * Existing transactions the run's transactions were matched to; undefined when none
+   */
+  get matchedTransactionIds(): string[] | undefined {
+    const matched = this.planned
+      .map((transaction) => transaction.matchedTransactionId)
+      .filter((transactionId): transactionId is string => !!transactionId);
+    return matched.length > 0 ? matched : undefined;
+  }
+
+  /**
+   * Hold the run for review when the given rule is enabled (REVIEW_RULES)
+   */
+  review(rule: ReviewRule, reason: string): void {
+    if (config.review.rules.includes(rule)) {
+      this.hold(reason);
+    }
+  }
+
+  /**
+   * Hold the run for review. Transactions created afterwards are only planned.
+   */
+  hold(reason: string): void {
+    this.reviewReasons.push(reason);
+  }
+
+  async create(
+    planned: YNABTransactionInput,
+    accountId: string = this.route.accountId
+  ): Promise<string> {
+    const transaction = this.routed(planned, accountId);
+    if (this.matchExisting && accountId === this.route.accountId) {
+      await this.match(transaction);
+    }
+    this.planned.push(transaction);
+    if (!this.posting) {
+      return this.placeholderId(transaction);
+    }
+    const transactionId = await ynabClient.createTransaction(transaction);
+    this.posted.push({ transactionId, importId: transaction.import_id! });
+    return transactionId;
+  }
+
+  async createAll(planned: YNABTransactionInput[]): Promise<CreatedTransaction[]> {
+    const transactions = planned.map((transaction) => this.routed(transaction));
+    this.planned.push(...transactions);
+    if (!this.posting) {
+      return transactions.map((transaction) => ({
+        transactionId: this.placeholderId(transaction),
+        importId: transaction.import_id!,
+      }));
+    }
+    const created = await ynabClient.createTransactions(transactions);
+    this.posted.push(...created);
+    return created;
+  }
+
+  /**
+   * Forget the transactions planned after the first `count`, e.g. before planning a fallback
+   */
+  discardPlanned(count: number): void {
+    this.planned.splice(count);
+  }
+
+  async delete(transactionId: string): Promise<void> {
+    if (this.dryRun) {
+      logger.info(`Dry run: would delete transaction ${transactionId}`);
+      return;
+    }
+    await ynabClient.deleteTransaction(transactionId, this.route.budgetId);
+  }
+
+  async updateDate(transactionId: string, date: Date): Promise<void> {
+    if (this.dryRun) {
+      logger.info(`Dry run: would move transaction ${transactionId} to ${formatDate(date)}`);
+      return;
+    }
+    await ynabClient.updateTransactionDate(transactionId, date, this.route.budgetId);
+  }
+
+  /**
+   * Mark a dry run's result and attach the transactions it would have created
+   */
+  finish(result: ProcessResult): ProcessResult {
+    if (!this.dryRun) {
+      return result;
+    }
+    return {
+      ...result,
+      dryRun: true,
+      transactions: this.planned,
+      reviewReasons: this.reviewReasons.length > 0 ? this.reviewReasons : undefined,
+      message: `Dry run, nothing was posted: ${result.message}`,
+    };
+  }
+
+  /**
+   * Match a transaction to the one existing transaction it could be (e.g. the card charge
+   * YNAB imported from the bank). Several candidates hold the run for review instead.
+   */
+  private async match(transaction: YNABTransactionInput): Promise<void> {
+    const claimed = (transactionId: string) =>
+      orderLedger.hasTransaction(transactionId) ||
+      reviewQueue
+        .list()
+        .some((entry) =>
+          entry.transactions.some((planned) => planned.matchedTransactionId === transactionId)
+        );
+    const candidates = (await ynabClient.findMatchingTransactions(transaction)).filter(
+      (candidate) => !claimed(candidate.id)
+    );
+
+    if (candidates.length === 1) {
+      const [match] = candidates;
+      logger.info(
+        `Matched ${transaction.import_id} to existing transaction ${match.id} (${match.payee_name}, ${match.date})`
+      );
+      transaction.matchedTransactionId = match.id;
+    } else if (candidates.length > 1) {
+      const amount = Money.fromMilliunits(transaction.amount).abs();
+      const found = candidates
+        .map((candidate) => `${candidate.id} (${candidate.payee_name}, ${candidate.date})`)
+        .join(', ');
+      this.hold(
+        `${candidates.length} existing transactions match $${amount} around ${transaction.date}: ${found}; set matchedTransactionId to pick one`
+      );
+    }
+  }
+
+  private routed(
+    transaction: YNABTransactionInput,
+    accountId: string = this.route.accountId
+  ): YNABTransactionInput {
+    return { ...transaction, budgetId: this.route.budgetId, accountId };
+  }
+
+  private get posting(): boolean {
+    return !this.dryRun && this.reviewReasons.length === 0;
+  }
+
+  private placeholderId(transaction: YNABTransactionInput): string {
+    return `${this.dryRun ? 'dry-run' : 'pending'}:${transaction.import_id}`;
+  }
+}
 
 /**
  * Main orchestrator for processing Amazon orders and creating YNAB transactions
  */
 export class OrderProcessor {
+  /**
+   * Route a classified email to the matching processing pipeline
+   */
+  async processEmail(
+    type: EmailType,
+    html: string,
+    text: string,
+    headers?: Record<string, string>,
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    switch (type) {
+      case 'order':
+        return this.processOrder(html, text, headers, options);
+      case 'refund':
+        return this.processRefund(html, text, headers, options);
+      case 'cancellation':
+        return this.processCancellation(html, text, options);
+      case 'shipment':
+        return this.processShipment(html, text, headers, options);
+      default:
+        return {
+          success: false,
+          status: 'error',
+          message: `Unsupported email type: ${type}`,
+        };
+    }
+  }
+
   /**
    * Process an Amazon order email and create YNAB transactions
    */
-  async processOrder(html: string, text: string): Promise<{ success: boolean; message: string }> {
+  async processOrder(
+    html: string,
+    text: string,
+    headers?: Record<string, string>,
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    const run = this.startRun(options, config.matching.enabled);
+    let orderNumber: string | undefined;
     try {
       logger.info('Starting order processing');
 
       // Step 1: Parse the email
-      const parsed = emailParser.parseEmail(html, text);
+      const parsed = emailParser.parseEmail(html, text, headers);
       const { order } = parsed;
+      orderNumber = order.orderNumber;
+      const orderDate = order.orderDate || new Date();
+
+      // Step 2: Skip orders that were already imported
+      const existing = orderLedger.get(order.orderNumber);
+      if (existing) {
+        logger.info(`Order ${order.orderNumber} was already imported on ${existing.createdAt}, skipping`);
+        return this.duplicateResult(order.orderNumber, existing.transactionIds);
+      }
+
+      const review = reviewQueue.get(order.orderNumber);
+      if (review) {
+        const state =
+          review.status === 'pending' ? 'is waiting for review' : `was ${review.status} in review`;
+        return this.duplicateResult(
+          order.orderNumber,
+          review.transactionIds || [],
+          `Order ${order.orderNumber} ${state}`
+        );
+      }
 
       logger.info(`Processing order ${order.orderNumber} with ${order.items.length} item(s)`);
+      this.checkOrderForReview(order, run);
+      if (!run.dryRun) {
+        priceCatalog.recordOrder(order);
+      }
+
+      // Step 3: Pick the budget and account, the payments posted to other accounts,
+      // and work out the conversion for orders from a foreign storefront
+      const context: RouteContext = {
+        to: options.to,
+        from: options.from,
+        paymentLast4: order.paymentLast4,
+        deliveryAddress: order.deliveryAddress,
+        amazonAccount: order.amazonAccount,
+      };
+      run.route = accountRouter.resolve(context);
+      const payments = this.splitPayments(order, context, run.route);
+      const charged = this.withoutSplitCards(order, payments);
+      const conversion = await currencyConverter.getConversion(
+        order.currency,
+        orderDate,
+        run.route.budgetId
+      );
 
-      // Step 2: Handle based on number of items
+      // Step 4: Handle based on number of items
+      let result: ProcessResult;
       if (order.items.length === 1) {
         // Single item - use grand total directly
-        return await this.processSingleItem(order.items[0], order.orderNumber, order.grandTotal);
+        result = await this.processSingleItem(
+          order.items[0],
+          order.orderNumber,
+          charged.grandTotal,
+          orderDate,
+          run,
+          conversion,
+          payments
+        );
       } else {
         // Multiple items - fetch prices and split tax
-        return await this.processMultipleItems(order.items, order.orderNumber, order.grandTotal);
+        result = await this.processMultipleItems(charged, orderDate, run, conversion, payments);
+      }
+
+      // Step 5: Hold the planned transactions for review
+      if (run.held && result.success) {
+        reviewQueue.add({
+          orderNumber: order.orderNumber,
+          reasons: run.reviewReasons,
+          transactions: run.planned,
+          ledger: {
+            orderNumber: order.orderNumber,
+            budgetId: run.route.budgetId,
+            accountId: run.route.accountId,
+            grandTotal: order.grandTotal.toDecimal(),
+            orderDate: orderDate.toISOString(),
+            items: result.items,
+            conversion,
+          },
+        });
+        return {
+          success: true,
+          status: 'pending',
+          orderNumber: order.orderNumber,
+          items: result.items,
+          tax: result.tax,
+          reviewReasons: run.reviewReasons,
+          message: `Order ${order.orderNumber} is waiting for review: ${run.reviewReasons.join('; ')}`,
+        };
       }
+
+      // Step 6: Remember the order so replays are not posted again
+      if (
+        !run.dryRun &&
+        result.success &&
+        result.transactionIds &&
+        result.transactionIds.length > 0
+      ) {
+        orderLedger.record({
+          orderNumber: order.orderNumber,
+          budgetId: run.route.budgetId,
+          accountId: run.route.accountId,
+          grandTotal: order.grandTotal.toDecimal(),
+          orderDate: orderDate.toISOString(),
+          transactionIds: result.transactionIds,
+          importIds: result.importIds || [],
+          matchedTransactionIds: run.matchedTransactionIds,
+          items: result.items,
+          conversion,
+        });
+      }
+
+      return run.finish(result);
     } catch (error) {
+      if (error instanceof DuplicateImportError && orderNumber) {
+        logger.info(`YNAB already has transactions for order ${orderNumber}, skipping`);
+        return this.duplicateResult(orderNumber, []);
+      }
       logger.error('Error processing order', error);
       return {
         success: false,
+        status: 'error',
+        orderNumber,
         message: `Error processing order: ${error instanceof Error ? error.message : String(error)}`,
       };
     }
   }
 
+  /**
+   * Process an Amazon refund / return email and create an inflow transaction
+   */
+  async processRefund(
+    html: string,
+    text: string,
+    headers?: Record<string, string>,
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    const run = this.startRun(options);
+    let orderNumber: string | undefined;
+    try {
+      logger.info('Starting refund processing');
+
+      const { refund } = emailParser.parseRefundEmail(html, text);
+      orderNumber = refund.orderNumber;
+
+      const itemNames = refund.items.map((item) => item.name);
+      const importId = ynabClient.buildRefundImportId(orderNumber, refund.refundTotal, itemNames);
+
+      const existing = orderLedger.getRefund(importId);
+      if (existing) {
+        logger.info(`Refund for order ${orderNumber} was already imported on ${existing.createdAt}, skipping`);
+        return {
+          success: true,
+          status: 'duplicate',
+          orderNumber,
+          transactionIds: [existing.transactionId],
+          message: `Refund for order ${orderNumber} has already been imported`,
+        };
+      }
+
+      // Link to the original order's transaction when we imported it
+      const original = orderLedger.get(orderNumber);
+      if (!original) {
+        logger.warn(`Original order ${orderNumber} not found in ledger, refund will not be linked`);
+      }
+
+      // Refund to the budget and account the order was posted to
+      run.route = original
+        ? accountRouter.forEntry(original)
+        : accountRouter.resolve({ to: options.to, from: options.from });
+      const conversion = await currencyConverter.getConversion(
+        refund.currency,
+        undefined,
+        run.route.budgetId
+      );
+
+      const transactionId = await run.create(
+        ynabClient.planRefundTransaction(
+          orderNumber,
+          refund.refundTotal,
+          itemNames,
+          original?.transactionIds[0],
+          emailParser.parseHeaderDate(headers),
+          refund.items.length > 0
+            ? categorizer.categorizeAll(refund.items, run.route.budgetId)
+            : undefined,
+          conversion
+        )
+      );
+
+      if (!run.dryRun) {
+        orderLedger.recordRefund({
+          orderNumber,
+          importId,
+          transactionId,
+          amount: refund.refundTotal.toDecimal(),
+        });
+      }
+
+      logger.info(`Refund transaction created: ${transactionId}`);
+
+      return run.finish({
+        success: true,
+        status: 'success',
+        orderNumber,
+        transactionIds: [transactionId],
+        importIds: [importId],
+        message: `Created refund transaction for order ${orderNumber}: $${refund.refundTotal}`,
+      });
+    } catch (error) {
+      if (error instanceof DuplicateImportError && orderNumber) {
+        logger.info(`YNAB already has this refund for order ${orderNumber}, skipping`);
+        return {
+          success: true,
+          status: 'duplicate',
+          orderNumber,
+          message: `Refund for order ${orderNumber} has already been imported`,
+        };
+      }
+      logger.error('Error processing refund', error);
+      return {
+        success: false,
+        status: 'error',
+        orderNumber,
+        message: `Error processing refund: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Process a cancellation email: delete (full) or adjust (partial) the order's transactions
+   */
+  async processCancellation(html: string, text: string, options: ProcessOptions = {}): Promise<ProcessResult> {
+    const run = this.startRun(options);
+    let orderNumber: string | undefined;
+    try {
+      logger.info('Starting cancellation processing');
+
+      const cancellation = emailParser.parseCancellationEmail(html, text);
+      orderNumber = cancellation.orderNumber;
+
+      const entry = orderLedger.get(orderNumber);
+      if (!entry && reviewQueue.get(orderNumber)?.status === 'pending') {
+        return this.cancelPendingReview(orderNumber, cancellation.fullOrder, run);
+      }
+      if (!entry) {
+        return this.ignoredResult(orderNumber, `Order ${orderNumber} was not imported, nothing to cancel`);
+      }
+      if (entry.cancelledAt) {
+        return this.duplicateResult(orderNumber, [], `Order ${orderNumber} was already cancelled`);
+      }
+      run.route = accountRouter.forEntry(entry);
+
+      const activeItems = (entry.items || []).filter((item) => !item.cancelled);
+      const cancelledItems = activeItems.filter((item) =>
+        cancellation.items.some((cancelled) => this.isSameItem(item, cancelled))
+      );
+
+      // Cancelling every remaining item is the same as cancelling the whole order
+      if (cancellation.fullOrder || cancelledItems.length === activeItems.length) {
+        return run.finish(await this.cancelOrder(entry, run));
+      }
+
+      if (cancelledItems.length === 0) {
+        return this.ignoredResult(
+          orderNumber,
+          `None of the cancelled items match imported items of order ${orderNumber}`
+        );
+      }
+
+      // A copy, since re-posting bumps its revision count and a dry run must not change the ledger
+      return run.finish(await this.cancelItems({ ...entry }, cancelledItems, run));
+    } catch (error) {
+      logger.error('Error processing cancellation', error);
+      return {
+        success: false,
+        status: 'error',
+        orderNumber,
+        message: `Error processing cancellation: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Process a shipment email: optionally post the shipment's charge as its own transaction,
+   * and move the order's transactions to the ship date
+   */
+  async processShipment(
+    html: string,
+    text: string,
+    headers?: Record<string, string>,
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    const run = this.startRun(options);
+    let orderNumber: string | undefined;
+    try {
+      logger.info('Starting shipment processing');
+
+      const shipment = emailParser.parseShipmentEmail(html, text);
+      orderNumber = shipment.orderNumber;
+
+      const chargePerShipment = config.chargePerShipment && shipment.charge !== undefined;
+      if (!config.updateDateOnShipment && !chargePerShipment) {
+        return this.ignoredResult(orderNumber, 'Updating transaction dates on shipment is disabled');
+      }
+
+      const entry = orderLedger.get(orderNumber);
+      if (!entry || entry.cancelledAt) {
+        return this.ignoredResult(orderNumber, `Order ${orderNumber} has no imported transactions to update`);
+      }
+      run.route = accountRouter.forEntry(entry);
+
+      // Amazon charges when the order ships, so the email date is the charge date
+      const shipDate = shipment.shipDate || emailParser.parseHeaderDate(headers) || new Date();
+      const shipDay = formatDate(shipDate);
+
+      if (chargePerShipment) {
+        // A copy, since re-posting bumps its revision count and a dry run must not change the ledger
+        return run.finish(await this.chargeShipment({ ...entry }, shipment, shipDate, run));
+      }
+      if (entry.shipDate === shipDay) {
+        return this.duplicateResult(
+          orderNumber,
+          entry.transactionIds,
+          `Order ${orderNumber} already has ship date ${shipDay}`
+        );
+      }
+
+      // Matched transactions keep the date the bank reported
+      for (const transactionId of entry.transactionIds) {
+        if (!entry.matchedTransactionIds?.includes(transactionId)) {
+          await run.updateDate(transactionId, shipDate);
+        }
+      }
+
+      if (!run.dryRun) {
+        orderLedger.update(orderNumber, (updated) => {
+          updated.shipDate = shipDay;
+        });
+      }
+
+      return run.finish({
+        success: true,
+        status: 'success',
+        orderNumber,
+        transactionIds: entry.transactionIds,
+        message: `Updated ${entry.transactionIds.length} transaction(s) for order ${orderNumber} to ship date ${shipDay}`,
+      });
+    } catch (error) {
+      logger.error('Error processing shipment', error);
+      return {
+        success: false,
+        status: 'error',
+        orderNumber,
+        message: `Error processing shipment: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Reject the review of a fully cancelled order that was never posted. Partly cancelled
+   * orders stay in review, to be edited before they are approved.
+   */
+  private cancelPendingReview(
+    orderNumber: string,
+    fullOrder: boolean,
+    run: TransactionRun
+  ): ProcessResult {
+    if (!fullOrder) {
+      return this.ignoredResult(
+        orderNumber,
+        `Order ${orderNumber} is waiting for review; remove the cancelled items before approving it`
+      );
+    }
+
+    if (!run.dryRun) {
+      reviewQueue.reject(orderNumber);
+    }
+    return run.finish({
+      success: true,
+      status: 'success',
+      orderNumber,
+      message: `Cancelled order ${orderNumber} before it was posted: rejected its review`,
+    });
+  }
+
+  /**
+   * Delete every transaction of an order and mark it cancelled in the ledger. Transactions
+   * matched from the bank are kept; the charge is undone by a refund.
+   */
+  private async cancelOrder(entry: LedgerEntry, run: TransactionRun): Promise<ProcessResult> {
+    const { orderNumber } = entry;
+    const matched = entry.matchedTransactionIds || [];
+    const transactionIds = entry.transactionIds.filter(
+      (transactionId) => !matched.includes(transactionId)
+    );
+    logger.info(`Cancelling order ${orderNumber}: deleting ${transactionIds.length} transaction(s)`);
+
+    for (const transactionId of transactionIds) {
+      await run.delete(transactionId);
+    }
+    if (matched.length > 0) {
+      logger.warn(`Keeping transaction(s) ${matched.join(', ')} of order ${orderNumber}, imported from the bank`);
+    }
+
+    if (!run.dryRun) {
+      orderLedger.update(orderNumber, (updated) => {
+        updated.cancelledAt = new Date().toISOString();
+        updated.transactionIds = [];
+        updated.importIds = [];
+        updated.items?.forEach((item) => {
+          item.cancelled = true;
+        });
+      });
+    }
+
+    return {
+      success: true,
+      status: 'success',
+      orderNumber,
+      transactionIds,
+      message:
+        `Cancelled order ${orderNumber}: deleted ${transactionIds.length} transaction(s)` +
+        (matched.length > 0 ? `, kept ${matched.length} imported from the bank` : ''),
+    };
+  }
+
+  /**
+   * Remove cancelled items from an order. Items with their own transaction are deleted;
+   * split transactions are re-posted with the remaining items. Consolidated transactions
+   * (item amounts are unknown) and transactions matched from the bank can't be adjusted
+   * and need manual editing.
+   */
+  private async cancelItems(
+    entry: LedgerEntry,
+    cancelledItems: LedgerItem[],
+    run: TransactionRun
+  ): Promise<ProcessResult> {
+    const { orderNumber } = entry;
+    const items = entry.items || [];
+    const cancelledImportIds = new Set(cancelledItems.map((item) => item.importId));
+    const adjusted: string[] = [];
+    const manual: string[] = [];
+
+    for (const importId of cancelledImportIds) {
+      const transactionId = entry.transactionIds[entry.importIds.indexOf(importId)];
+      if (!transactionId) {
+        logger.warn(`No transaction recorded for ${importId}, skipping`);
+        continue;
+      }
+      if (entry.matchedTransactionIds?.includes(transactionId)) {
+        logger.warn(`Transaction ${transactionId} was imported from the bank and is not re-posted`);
+        manual.push(transactionId);
+        continue;
+      }
+
+      const sharing = items.filter((item) => item.importId === importId && !item.cancelled);
+      const remaining = sharing.filter((item) => !cancelledItems.includes(item));
+
+      if (remaining.length === 0) {
+        // The transaction only holds cancelled items
+        await run.delete(transactionId);
+        if (!run.dryRun) {
+          this.replaceLedgerTransaction(orderNumber, importId, null, cancelledItems);
+        }
+        adjusted.push(transactionId);
+        continue;
+      }
+
+      if (remaining.some((item) => item.amount === undefined)) {
+        logger.warn(`Transaction ${transactionId} mixes cancelled and remaining items without known amounts`);
+        manual.push(transactionId);
+        continue;
+      }
+
+      // Re-post the remaining items under a new import_id
+      const newImportId = this.nextRevisionImportId(entry);
+      const remainingItems = this.toRepostItems(remaining, run);
+      const remainingTotal = Money.sum(remainingItems.map((item) => item.total));
+
+      await run.delete(transactionId);
+      const newTransactionId = await run.create(
+        ynabClient.planSplitTransaction(
+          remainingItems,
+          orderNumber,
+          remainingTotal,
+          new Date(entry.orderDate || entry.createdAt),
+          newImportId,
+          entry.conversion
+        )
+      );
+
+      if (!run.dryRun) {
+        this.replaceLedgerTransaction(
+          orderNumber,
+          importId,
+          { transactionId: newTransactionId, importId: newImportId },
+          cancelledItems
+        );
+        orderLedger.update(orderNumber, (updated) => {
+          updated.revisions = entry.revisions;
+        });
+      }
+      adjusted.push(transactionId);
+    }
+
+    const names = cancelledItems.map((item) => item.name).join(', ');
+    if (manual.length > 0) {
+      return {
+        success: false,
+        status: 'error',
+        orderNumber,
+        transactionIds: manual,
+        message: `Cancelled items of order ${orderNumber} (${names}) are part of a consolidated or bank-imported transaction; adjust transaction(s) ${manual.join(', ')} manually`,
+      };
+    }
+
+    return {
+      success: true,
+      status: 'success',
+      orderNumber,
+      transactionIds: adjusted,
+      message: `Removed cancelled item(s) from order ${orderNumber}: ${names}`,
+    };
+  }
+
+  /**
+   * Post the charge of one shipment as its own transaction. The shipped items move out
+   * of the order's transactions into a split for exactly the amount charged, and the
+   * items still to ship are re-posted for the rest, so every card charge has a matching
+   * transaction. When the order's transactions already hold just the shipment's items and
+   * charge, they are only moved to the ship date.
+   */
+  private async chargeShipment(
+    entry: LedgerEntry,
+    shipment: AmazonShipment,
+    shipDate: Date,
+    run: TransactionRun
+  ): Promise<ProcessResult> {
+    const { orderNumber } = entry;
+    const charge = shipment.charge!;
+    const shipDay = formatDate(shipDate);
+    const items = entry.items || [];
+    const isShipped = (item: LedgerItem) =>
+      shipment.items.some((shippedItem) => this.isSameItem(item, shippedItem));
+
+    // Items are tracked by position, which stays the same in the ledger
+    const uncharged = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => !item.cancelled && !item.chargedAt);
+    const shipped = uncharged.filter(({ item }) => isShipped(item));
+    const rest = uncharged.filter(({ item }) => !isShipped(item));
+
+    if (shipped.length === 0) {
+      return items.some((item) => item.chargedAt && isShipped(item))
+        ? this.duplicateResult(orderNumber, [], `This shipment of order ${orderNumber} was already charged`)
+        : this.ignoredResult(orderNumber, `None of the shipped items match uncharged items of order ${orderNumber}`);
+    }
+
+    // The order's transactions holding the uncharged items are replaced as a whole
+    const importIds = [...new Set(uncharged.map(({ item }) => item.importId))];
+    const transactionIds = importIds.map(
+      (importId) => entry.transactionIds[entry.importIds.indexOf(importId)]
+    );
+    const amounts = uncharged.map(({ item }) => item.amount);
+    const remaining = amounts.every((amount) => amount !== undefined)
+      ? Money.sum(amounts.map((amount) => Money.fromDecimal(amount!)))
+      : undefined;
+
+    if (rest.length === 0 && remaining?.equals(charge)) {
+      const moved = transactionIds.filter(
+        (transactionId): transactionId is string =>
+          !!transactionId && !entry.matchedTransactionIds?.includes(transactionId)
+      );
+      for (const transactionId of moved) {
+        await run.updateDate(transactionId, shipDate);
+      }
+      if (!run.dryRun) {
+        orderLedger.update(orderNumber, (updated) => {
+          shipped.forEach(({ index }) => {
+            updated.items![index].chargedAt = shipDay;
+          });
+        });
+      }
+      return {
+        success: true,
+        status: 'success',
+        orderNumber,
+        transactionIds: moved,
+        message: `Shipment of order ${orderNumber} for $${charge} matches its transaction(s); moved ${moved.length} to ship date ${shipDay}`,
+      };
+    }
+
+    const problem = this.shipmentProblem(entry, transactionIds, charge, remaining, rest.length > 0);
+    if (problem) {
+      logger.warn(`Cannot post the shipment of order ${orderNumber} on its own: ${problem}`);
+      return {
+        success: false,
+        status: 'error',
+        orderNumber,
+        message: `Shipment of order ${orderNumber} charged $${charge}, but ${problem}; adjust its transactions manually`,
+      };
+    }
+
+    // Split the charge, and what is left, by the items' recorded amounts
+    const restTotal = remaining!.subtract(charge);
+    const split = (group: typeof uncharged, total: Money) =>
+      this.toRepostItems(
+        group.map(({ item }) => item),
+        run,
+        total.allocate(group.map(({ item }) => Money.fromDecimal(item.amount!).milliunits))
+      );
+    const shippedItems = split(shipped, charge);
+    const restItems = split(rest, restTotal);
+
+    for (const transactionId of transactionIds) {
+      await run.delete(transactionId);
+    }
+
+    const shipmentNumber = (entry.shipments ?? 0) + 1;
+    const shipmentImportId = ynabClient.buildImportId(orderNumber, `s${shipmentNumber}`);
+    const created: CreatedTransaction[] = [
+      {
+        transactionId: await run.create(
+          ynabClient.planSplitTransaction(
+            shippedItems,
+            orderNumber,
+            charge,
+            shipDate,
+            shipmentImportId,
+            entry.conversion
+          )
+        ),
+        importId: shipmentImportId,
+      },
+    ];
+
+    if (rest.length > 0) {
+      const restImportId = this.nextRevisionImportId(entry);
+      created.push({
+        transactionId: await run.create(
+          ynabClient.planSplitTransaction(
+            restItems,
+            orderNumber,
+            restTotal,
+            new Date(entry.orderDate || entry.createdAt),
+            restImportId,
+            entry.conversion
+          )
+        ),
+        importId: restImportId,
+      });
+    }
+
+    if (!run.dryRun) {
+      orderLedger.update(orderNumber, (updated) => {
+        const kept = updated.importIds
+          .map((importId, i) => ({ importId, transactionId: updated.transactionIds[i] }))
+          .filter(({ importId }) => !importIds.includes(importId));
+        updated.importIds = [...kept, ...created].map((transaction) => transaction.importId);
+        updated.transactionIds = [...kept, ...created].map((transaction) => transaction.transactionId);
+        updated.shipments = shipmentNumber;
+        updated.revisions = entry.revisions;
+
+        shipped.forEach(({ index }, i) => {
+          Object.assign(updated.items![index], {
+            importId: shipmentImportId,
+            amount: shippedItems[i].total.toDecimal(),
+            chargedAt: shipDay,
+          });
+        });
+        rest.forEach(({ index }, i) => {
+          Object.assign(updated.items![index], {
+            importId: created[1].importId,
+            amount: restItems[i].total.toDecimal(),
+          });
+        });
+      });
+    }
+
+    const names = shipped.map(({ item }) => item.name).join(', ');
+    return {
+      success: true,
+      status: 'success',
+      orderNumber,
+      transactionIds: created.map((transaction) => transaction.transactionId),
+      importIds: created.map((transaction) => transaction.importId),
+      message:
+        `Posted shipment ${shipmentNumber} of order ${orderNumber}: ${names} - $${charge}` +
+        (rest.length > 0 ? `, $${restTotal} left to ship` : ''),
+    };
+  }
+
+  /**
+   * Explain why a shipment can't be posted on its own, if it can't
+   */
+  private shipmentProblem(
+    entry: LedgerEntry,
+    transactionIds: (string | undefined)[],
+    charge: Money,
+    remaining: Money | undefined,
+    itemsLeft: boolean
+  ): string | undefined {
+    if (!remaining) {
+      return 'the item amounts are unknown (consolidated transaction)';
+    }
+    if (transactionIds.some((transactionId) => !transactionId)) {
+      return 'not every transaction of the order was recorded';
+    }
+    if (transactionIds.some((transactionId) => entry.matchedTransactionIds?.includes(transactionId!))) {
+      return 'its transaction was imported from the bank';
+    }
+    const left = remaining.subtract(charge);
+    if (itemsLeft && (left.isNegative() || left.isZero())) {
+      return `only $${remaining} was left to charge`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Reserve the next "r<n>" import_id for re-posting some of an order's items. Replaced
+   * import_ids leave the ledger, so the count is kept on the entry; pass a copy of the
+   * stored entry and save the count when the run posts.
+   */
+  private nextRevisionImportId(entry: LedgerEntry): string {
+    const revisionPrefix = `${ynabClient.buildImportId(entry.orderNumber)}:r`;
+    entry.revisions =
+      (entry.revisions ?? entry.importIds.filter((id) => id.startsWith(revisionPrefix)).length) + 1;
+    return ynabClient.buildImportId(entry.orderNumber, `r${entry.revisions}`);
+  }
+
+  /**
+   * Rebuild recorded items for a re-posted split transaction, with the given amounts
+   * (by default the recorded ones)
+   */
+  private toRepostItems(
+    items: LedgerItem[],
+    run: TransactionRun,
+    amounts: Money[] = items.map((item) => Money.fromDecimal(item.amount!))
+  ): ItemWithTax[] {
+    return items.map((item, i) => ({
+      name: item.name,
+      quantity: item.quantity || 1,
+      asin: item.asin,
+      pricePerUnit: amounts[i].multiply(1 / (item.quantity || 1)),
+      subtotal: amounts[i],
+      tax: Money.ZERO,
+      total: amounts[i],
+      categoryId: categorizer.categorize(
+        { name: item.name, quantity: item.quantity || 1, asin: item.asin },
+        run.route.budgetId
+      ),
+    }));
+  }
+
+  /**
+   * Update the ledger after a transaction was deleted (replacement null) or re-posted
+   */
+  private replaceLedgerTransaction(
+    orderNumber: string,
+    oldImportId: string,
+    replacement: { transactionId: string; importId: string } | null,
+    cancelledItems: LedgerItem[]
+  ): void {
+    orderLedger.update(orderNumber, (entry) => {
+      const index = entry.importIds.indexOf(oldImportId);
+      if (index >= 0) {
+        if (replacement) {
+          entry.transactionIds[index] = replacement.transactionId;
+          entry.importIds[index] = replacement.importId;
+        } else {
+          entry.transactionIds.splice(index, 1);
+          entry.importIds.splice(index, 1);
+        }
+      }
+
+      entry.items?.forEach((item) => {
+        if (item.importId !== oldImportId) return;
+        if (cancelledItems.some((cancelled) => cancelled.name === item.name)) {
+          item.cancelled = true;
+        } else if (replacement) {
+          item.importId = replacement.importId;
+        }
+      });
+    });
+  }
+
+  /**
+   * Match an item from a notification email against an imported ledger item
+   */
+  private isSameItem(ledgerItem: LedgerItem, item: AmazonOrderItem): boolean {
+    if (ledgerItem.asin && item.asin) {
+      return ledgerItem.asin === item.asin;
+    }
+    const a = ledgerItem.name.trim().toLowerCase();
+    const b = item.name.trim().toLowerCase();
+    return a.startsWith(b) || b.startsWith(a);
+  }
+
+  /**
+   * Apply the review rules that only need the parsed order
+   */
+  private checkOrderForReview(order: AmazonOrder, run: TransactionRun): void {
+    run.review('all', 'Every order is reviewed');
+
+    const { amountThreshold } = config.review;
+    if (amountThreshold !== undefined && order.grandTotal.toDecimal() > amountThreshold) {
+      run.hold(`Grand total $${order.grandTotal} is over $${amountThreshold.toFixed(2)}`);
+    }
+
+    const summaryTotal = order.summary ? emailParser.summaryTotal(order.summary) : null;
+    if (summaryTotal && !summaryTotal.equals(order.grandTotal)) {
+      run.review(
+        'total-mismatch',
+        `Summary lines add up to $${summaryTotal}, but the grand total is $${order.grandTotal}`
+      );
+    }
+  }
+
+  /**
+   * Start a processing run; DRY_RUN applies unless the request says otherwise
+   */
+  private startRun(options: ProcessOptions, matchExisting = false): TransactionRun {
+    const dryRun = options.dryRun ?? config.dryRun;
+    if (dryRun) {
+      logger.info('Dry run: transactions will be planned but not posted to YNAB');
+    }
+    return new TransactionRun(dryRun, matchExisting);
+  }
+
+  /**
+   * Build the response for an email that requires no action
+   */
+  private ignoredResult(orderNumber: string, message: string): ProcessResult {
+    logger.info(message);
+    return {
+      success: true,
+      status: 'ignored',
+      orderNumber,
+      message,
+    };
+  }
+
+  /**
+   * Build the response for an order that has already been imported
+   */
+  private duplicateResult(
+    orderNumber: string,
+    transactionIds: string[],
+    message: string = `Order ${orderNumber} has already been imported`
+  ): ProcessResult {
+    return {
+      success: true,
+      status: 'duplicate',
+      orderNumber,
+      transactionIds,
+      message,
+    };
+  }
+
   /**
    * Process a single-item order
    */
   private async processSingleItem(
     item: AmazonOrderItem,
     orderNumber: string,
-    grandTotal: number
-  ): Promise<{ success: boolean; message: string }> {
+    grandTotal: Money,
+    orderDate: Date,
+    run: TransactionRun,
+    conversion?: CurrencyConversion,
+    payments: SplitPayment[] = []
+  ): Promise<ProcessResult> {
     try {
       logger.info(`Processing single-item order: ${item.name}`);
 
       // Create a single transaction with the grand total
-      const transactionId = await ynabClient.createConsolidatedTransaction(
-        orderNumber,
-        grandTotal,
-        [item.name]
+      const categoryId = categorizer.categorize(item, run.route.budgetId);
+      if (!categoryId) {
+        run.review('uncategorized', `No category for ${item.name}`);
+      }
+      const transactionId = await run.create(
+        ynabClient.planConsolidatedTransaction(
+          orderNumber,
+          grandTotal,
+          [item.name],
+          orderDate,
+          categoryId,
+          conversion
+        )
       );
 
       logger.info(`Single transaction created: ${transactionId}`);
 
+      const paid = await this.createPayments(
+        payments,
+        [{ name: item.name, weight: 1, categoryId }],
+        orderNumber,
+        orderDate,
+        run,
+        conversion
+      );
+
       return {
         success: true,
-        message: `Created transaction for order ${orderNumber}: ${item.name} - $${grandTotal.toFixed(2)}`,
+        status: 'success',
+        orderNumber,
+        transactionIds: [transactionId, ...paid.map((payment) => payment.transactionId)],
+        importIds: [ynabClient.buildImportId(orderNumber), ...paid.map((payment) => payment.importId)],
+        items: this.toLedgerItems([item], () => ynabClient.buildImportId(orderNumber)),
+        message: `Created transaction for order ${orderNumber}: ${item.name} - $${grandTotal}${this.describePayments(payments)}`,
       };
     } catch (error) {
       logger.error('Error processing single item', error);
@@ -73,81 +1179,287 @@ export class OrderProcessor {
    * Process a multi-item order
    */
   private async processMultipleItems(
-    items: AmazonOrderItem[],
-    orderNumber: string,
-    grandTotal: number
-  ): Promise<{ success: boolean; message: string }> {
+    order: AmazonOrder,
+    orderDate: Date,
+    run: TransactionRun,
+    conversion?: CurrencyConversion,
+    payments: SplitPayment[] = []
+  ): Promise<ProcessResult> {
+    const { items, orderNumber, grandTotal } = order;
+    const plannedBefore = run.planned.length;
     try {
       logger.info(`Processing multi-item order with ${items.length} items`);
 
-      // Step 1: Fetch prices for items that have product URLs
-      const itemsWithPrices = await this.fetchItemPrices(items);
+      // Step 1: Look up prices for items the email didn't price
+      const { items: itemsWithPrices, lookedUp } = await this.fetchItemPrices(order, run);
 
       // Step 2: Validate that we have prices for all items
       const missingPrices = itemsWithPrices.filter((item) => !item.price);
       if (missingPrices.length > 0) {
         logger.warn(`Could not fetch prices for ${missingPrices.length} items. Falling back to consolidated transaction.`);
-        return await this.fallbackToConsolidated(items, orderNumber, grandTotal);
+        return await this.fallbackToConsolidated(items, orderNumber, grandTotal, orderDate, run, conversion, payments);
       }
 
-      // Step 3: Calculate tax for each item
-      const itemsWithTax = taxCalculator.calculateItemTaxes(itemsWithPrices, grandTotal);
-
-      // Step 4: Create individual transactions in YNAB
-      const transactionIds = await ynabClient.createTransactions(
-        itemsWithTax,
-        orderNumber
+      // Step 3: Calculate tax for each item and assign categories
+      const { items: calculatedItems, report } = taxCalculator.calculateItemTaxes(
+        itemsWithPrices,
+        grandTotal,
+        order.summary,
+        order.deliveryAddress
       );
+      const itemsWithTax = calculatedItems.map((item) => ({
+        ...item,
+        categoryId: categorizer.categorize(item, run.route.budgetId),
+      }));
 
-      logger.info(`Created ${transactionIds.length} transactions for order ${orderNumber}`);
+      if (lookedUp.length > 0) {
+        run.review('fetched-prices', `Prices not in the email: ${lookedUp.join(', ')}`);
+      }
+      const uncategorized = itemsWithTax
+        .filter((item) => !item.categoryId)
+        .map((item) => item.name);
+      if (uncategorized.length > 0) {
+        run.review('uncategorized', `No category for ${uncategorized.join(', ')}`);
+      }
 
-      // Step 5: Generate summary
-      const summary = itemsWithTax
-        .map((item) => `${item.name}: $${item.total.toFixed(2)}`)
+      // Step 4: Generate summary
+      let summary = itemsWithTax
+        .map((item) => `${item.name}: $${item.total}`)
         .join(', ');
+      if (report.source !== 'estimated' && report.discrepancy.abs().milliunits > 50) {
+        const expected = `expected $${report.estimatedTax}${report.jurisdiction ? ` for ${report.jurisdiction}` : ''}`;
+        summary += ` (tax $${report.tax}, ${expected})`;
+        run.review('tax-mismatch', `Tax $${report.tax}, ${expected}`);
+      }
+      summary += this.describePayments(payments);
+
+      // Payments posted to other accounts are split like the gift card credit
+      const paymentItems = itemsWithTax.map((item) => ({
+        name: item.name,
+        weight: item.giftCard?.milliunits ?? 0,
+        categoryId: item.categoryId,
+      }));
+
+      // Step 5a: Create one split transaction matching the card charge. Matching needs the
+      // order as one transaction, like the bank's
+      if (config.ynab.splitTransactions || config.matching.enabled) {
+        const transactionId = await run.create(
+          ynabClient.planSplitTransaction(itemsWithTax, orderNumber, grandTotal, orderDate, undefined, conversion)
+        );
+
+        logger.info(`Created split transaction ${transactionId} for order ${orderNumber}`);
+
+        const paid = await this.createPayments(payments, paymentItems, orderNumber, orderDate, run, conversion);
+
+        return {
+          success: true,
+          status: 'success',
+          orderNumber,
+          transactionIds: [transactionId, ...paid.map((payment) => payment.transactionId)],
+          importIds: [ynabClient.buildImportId(orderNumber), ...paid.map((payment) => payment.importId)],
+          items: this.toLedgerItems(itemsWithTax, () => ynabClient.buildImportId(orderNumber)),
+          tax: report,
+          message: `Created split transaction for order ${orderNumber}: ${summary}`,
+        };
+      }
+
+      // Step 5b: Create individual transactions in YNAB
+      const created = await run.createAll(
+        ynabClient.planItemTransactions(itemsWithTax, orderNumber, orderDate, conversion)
+      );
+      created.push(
+        ...(await this.createPayments(payments, paymentItems, orderNumber, orderDate, run, conversion))
+      );
+      const transactionIds = created.map((transaction) => transaction.transactionId);
+
+      logger.info(`Created ${transactionIds.length} transactions for order ${orderNumber}`);
 
       return {
         success: true,
+        status: 'success',
+        orderNumber,
+        transactionIds,
+        importIds: created.map((transaction) => transaction.importId),
+        items: this.toLedgerItems(itemsWithTax, (i) => ynabClient.buildImportId(orderNumber, i + 1)),
+        tax: report,
         message: `Created ${transactionIds.length} transactions for order ${orderNumber}: ${summary}`,
       };
     } catch (error) {
+      // Never fall back when YNAB tells us the order was already imported
+      if (error instanceof DuplicateImportError) {
+        throw error;
+      }
       logger.error('Error processing multiple items', error);
 
+      // A consolidated transaction on top of what was already posted would count the order twice
+      if (run.posted.length > 0) {
+        const posted = run.posted.map((transaction) => transaction.importId).join(', ');
+        return {
+          success: false,
+          status: 'error',
+          orderNumber,
+          transactionIds: run.posted.map((transaction) => transaction.transactionId),
+          message: `Order ${orderNumber} failed after posting ${run.posted.length} transaction(s) (${posted}): ${error instanceof Error ? error.message : String(error)}; complete it in YNAB manually`,
+        };
+      }
+
       // Fallback to consolidated transaction if individual processing fails
       logger.warn('Falling back to consolidated transaction due to error');
-      return await this.fallbackToConsolidated(items, orderNumber, grandTotal);
+      run.discardPlanned(plannedBefore);
+      return await this.fallbackToConsolidated(items, orderNumber, grandTotal, orderDate, run, conversion, payments);
     }
   }
 
   /**
-   * Fetch prices for items from their product URLs
+   * Fill in prices for items whose price isn't in the email, from a fresh
+   * catalog price or else by scraping the product page. Also returns a
+   * description of each price that was looked up.
    */
-  private async fetchItemPrices(items: AmazonOrderItem[]): Promise<AmazonOrderItem[]> {
-    const itemsWithPrices = [...items];
+  private async fetchItemPrices(
+    order: AmazonOrder,
+    run: TransactionRun
+  ): Promise<{ items: AmazonOrderItem[]; lookedUp: string[] }> {
+    const itemsWithPrices = [...order.items];
+    const lookedUp: string[] = [];
+    const toScrape: { index: number; productUrl: string }[] = [];
 
     for (let i = 0; i < itemsWithPrices.length; i++) {
       const item = itemsWithPrices[i];
 
-      if (item.productUrl) {
-        logger.info(`Fetching price for: ${item.name}`);
+      if (item.price) {
+        logger.debug(`Using price from email: $${item.price} for ${item.name}`);
+        continue;
+      }
+
+      const cached = priceCatalog.getFreshPrice(item, order.currency);
+      if (cached) {
+        itemsWithPrices[i] = { ...item, price: cached.price };
+        lookedUp.push(`${item.name} (${cached.point.source} price from ${cached.point.recordedAt.slice(0, 10)})`);
+        logger.info(`Using catalog price: $${cached.price} for ${item.name}`);
+      } else if (item.productUrl) {
+        toScrape.push({ index: i, productUrl: item.productUrl });
+      } else {
+        logger.warn(`No product URL for item: ${item.name}`);
+      }
+    }
+
+    // Scrape the rest concurrently; the fetcher bounds and spaces out the page loads
+    if (toScrape.length > 0) {
+      logger.info(`Fetching prices for ${toScrape.length} item(s)`);
+    }
+    const prices = await priceFetcher.fetchPrices(toScrape.map(({ productUrl }) => productUrl));
 
-        const price = await priceFetcher.fetchPrice(item.productUrl);
+    toScrape.forEach(({ index }, j) => {
+      const item = itemsWithPrices[index];
+      const price = prices[j];
 
-        if (price) {
-          itemsWithPrices[i] = {
-            ...item,
-            price: price,
-          };
-          logger.info(`Price found: $${price} for ${item.name}`);
-        } else {
-          logger.warn(`Could not fetch price for: ${item.name}`);
+      if (price) {
+        itemsWithPrices[index] = {
+          ...item,
+          price: price,
+        };
+        lookedUp.push(`${item.name} (scraped)`);
+        if (!run.dryRun) {
+          priceCatalog.record(item, price, 'scraped', order.currency, order.orderNumber);
         }
+        logger.info(`Price found: $${price} for ${item.name}`);
       } else {
-        logger.warn(`No product URL for item: ${item.name}`);
+        logger.warn(`Could not fetch price for: ${item.name}`);
       }
+    });
+
+    return { items: itemsWithPrices, lookedUp };
+  }
+
+  /**
+   * Record which YNAB transaction (by import_id) each item was posted in
+   */
+  private toLedgerItems(
+    items: (AmazonOrderItem | ItemWithTax)[],
+    importIdFor: (index: number) => string
+  ): LedgerItem[] {
+    return items.map((item, i) => ({
+      name: item.name,
+      asin: item.asin,
+      quantity: item.quantity,
+      amount: 'total' in item ? item.total.toDecimal() : undefined,
+      importId: importIdFor(i),
+    }));
+  }
+
+  /**
+   * Find the payments that go to an account other than the order's: gift cards and
+   * reward points with a mapped account, and cards routed to another account
+   */
+  private splitPayments(order: AmazonOrder, context: RouteContext, route: YNABRoute): SplitPayment[] {
+    const [, ...others] = (order.payments || []).filter((payment) => payment.type === 'card');
+    const credits = (order.payments || []).filter((payment) => payment.type !== 'card');
+
+    const split: SplitPayment[] = [];
+    for (const payment of [...others, ...credits]) {
+      const accountId = accountRouter.forPayment(payment, route, context);
+      if (accountId) {
+        logger.info(`Posting $${payment.amount} paid with ${payment.label} to account ${accountId}`);
+        split.push({ payment, accountId });
+      }
+    }
+    return split;
+  }
+
+  /**
+   * The order as charged to its own account: cards posted elsewhere are taken off the
+   * grand total and, like a gift card, count as a credit on the summary
+   */
+  private withoutSplitCards(order: AmazonOrder, payments: SplitPayment[]): AmazonOrder {
+    const cards = payments.filter(({ payment }) => payment.type === 'card');
+    if (cards.length === 0) {
+      return order;
     }
 
-    return itemsWithPrices;
+    const paid = Money.sum(cards.map(({ payment }) => payment.amount));
+    const grandTotal = order.grandTotal.subtract(paid);
+    return {
+      ...order,
+      grandTotal,
+      summary: {
+        ...order.summary,
+        giftCard: (order.summary?.giftCard ?? Money.ZERO).add(paid),
+        grandTotal,
+      },
+    };
+  }
+
+  /**
+   * Post the split payments, each to its own account, divided across the items by weight
+   */
+  private async createPayments(
+    payments: SplitPayment[],
+    items: { name: string; weight: number; categoryId?: string }[],
+    orderNumber: string,
+    orderDate: Date,
+    run: TransactionRun,
+    conversion?: CurrencyConversion
+  ): Promise<CreatedTransaction[]> {
+    const created: CreatedTransaction[] = [];
+    for (const [i, { payment, accountId }] of payments.entries()) {
+      const importId = ynabClient.buildImportId(orderNumber, `p${i + 1}`);
+      const transactionId = await run.create(
+        ynabClient.planPaymentTransaction(orderNumber, payment, items, importId, orderDate, conversion),
+        accountId
+      );
+      created.push({ transactionId, importId });
+    }
+    return created;
+  }
+
+  /**
+   * Describe the split payments for a result message
+   */
+  private describePayments(payments: SplitPayment[]): string {
+    if (payments.length === 0) {
+      return '';
+    }
+    return ` (${payments.map(({ payment }) => `$${payment.amount} by ${payment.label}`).join(', ')} posted separately)`;
   }
 
   /**
@@ -156,23 +1468,54 @@ export class OrderProcessor {
   private async fallbackToConsolidated(
     items: AmazonOrderItem[],
     orderNumber: string,
-    grandTotal: number
-  ): Promise<{ success: boolean; message: string }> {
+    grandTotal: Money,
+    orderDate: Date,
+    run: TransactionRun,
+    conversion?: CurrencyConversion,
+    payments: SplitPayment[] = []
+  ): Promise<ProcessResult> {
     try {
       logger.info('Creating consolidated transaction as fallback');
 
       const itemNames = items.map((item) => item.name);
-      const transactionId = await ynabClient.createConsolidatedTransaction(
-        orderNumber,
-        grandTotal,
-        itemNames
+      const categoryId = categorizer.categorizeAll(items, run.route.budgetId);
+      run.review(
+        'fallback',
+        'Could not split the order by item, fell back to one consolidated transaction'
+      );
+      if (!categoryId) {
+        run.review('uncategorized', 'No category for the consolidated transaction');
+      }
+      const transactionId = await run.create(
+        ynabClient.planConsolidatedTransaction(
+          orderNumber,
+          grandTotal,
+          itemNames,
+          orderDate,
+          categoryId,
+          conversion
+        )
       );
 
       logger.info(`Consolidated transaction created: ${transactionId}`);
 
+      const paid = await this.createPayments(
+        payments,
+        items.map((item) => ({ name: item.name, weight: 1, categoryId })),
+        orderNumber,
+        orderDate,
+        run,
+        conversion
+      );
+
       return {
         success: true,
-        message: `Created consolidated transaction for order ${orderNumber}: ${items.length} items - $${grandTotal.toFixed(2)}`,
+        status: 'success',
+        orderNumber,
+        transactionIds: [transactionId, ...paid.map((payment) => payment.transactionId)],
+        importIds: [ynabClient.buildImportId(orderNumber), ...paid.map((payment) => payment.importId)],
+        items: this.toLedgerItems(items, () => ynabClient.buildImportId(orderNumber)),
+        message: `Created consolidated transaction for order ${orderNumber}: ${items.length} items - $${grandTotal}${this.describePayments(payments)}`,
       };
     } catch (error) {
       logger.error('Error creating consolidated transaction', error);
@@ -0,0 +1,139 @@
+import path from 'path';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { extractAsin } from '../utils/asin';
+import { Money } from '../utils/money';
+import { AmazonOrder, AmazonOrderItem, CatalogEntry, PricePoint, PriceSource } from '../types';
+
+interface CatalogData {
+  products: Record<string, CatalogEntry>; // Keyed by ASIN
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * Local catalog of products we have seen, keyed by ASIN, with the price
+ * history from order emails and scraped product pages
+ */
+export class PriceCatalog {
+  private store: JsonFileStore<CatalogData>;
+
+  constructor(filePath: string = path.join(config.dataDir, 'price-catalog.json')) {
+    this.store = new JsonFileStore<CatalogData>(filePath, () => ({ products: {} }));
+  }
+
+  /**
+   * Get the catalog entry for a product
+   */
+  get(asin: string): CatalogEntry | undefined {
+    return this.store.read().products[asin.toUpperCase()];
+  }
+
+  /**
+   * List all products, most recently updated first
+   */
+  list(): CatalogEntry[] {
+    return Object.values(this.store.read().products).sort((a, b) =>
+      b.updatedAt.localeCompare(a.updatedAt)
+    );
+  }
+
+  /**
+   * The most recent price seen for an item in the given currency, if it is
+   * within the freshness window
+   */
+  getFreshPrice(
+    item: AmazonOrderItem,
+    currency?: string,
+    maxAgeDays: number = config.priceCatalog.maxAgeDays
+  ): { price: Money; point: PricePoint } | null {
+    const asin = this.asinOf(item);
+    const entry = asin ? this.get(asin) : undefined;
+    if (!entry || maxAgeDays <= 0) {
+      return null;
+    }
+
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    const point = [...entry.history].reverse().find((p) => p.currency === currency);
+    if (!point || Date.parse(point.recordedAt) < cutoff) {
+      return null;
+    }
+
+    return { price: Money.fromDecimal(point.price), point };
+  }
+
+  /**
+   * Record the unit prices an order email gave for its items
+   */
+  recordOrder(order: AmazonOrder): void {
+    for (const item of order.items) {
+      if (item.price) {
+        this.record(item, item.price, 'email', order.currency, order.orderNumber);
+      }
+    }
+  }
+
+  /**
+   * Record a price seen for an item. Items without an ASIN are skipped.
+   */
+  record(
+    item: AmazonOrderItem,
+    price: Money,
+    source: PriceSource,
+    currency?: string,
+    orderNumber?: string
+  ): CatalogEntry | undefined {
+    const asin = this.asinOf(item);
+    if (!asin) {
+      return undefined;
+    }
+
+    const point: PricePoint = {
+      price: price.toDecimal(),
+      currency,
+      source,
+      orderNumber,
+      recordedAt: new Date().toISOString(),
+    };
+
+    let saved: CatalogEntry | undefined;
+    this.store.update((data) => {
+      const existing = data.products[asin];
+      const history = existing?.history || [];
+
+      // A replayed email shouldn't add the same observation twice
+      const seen = history.some(
+        (p) =>
+          !!orderNumber &&
+          p.orderNumber === orderNumber &&
+          p.source === source &&
+          p.price === point.price
+      );
+      if (seen && existing) {
+        saved = existing;
+        return;
+      }
+
+      saved = {
+        asin,
+        title: item.name || existing?.title || asin,
+        price: point.price,
+        currency,
+        source,
+        updatedAt: point.recordedAt,
+        history: [...history, point].slice(-MAX_HISTORY),
+      };
+      data.products[asin] = saved;
+    });
+
+    logger.debug(`Recorded ${source} price ${price}${currency ? ` ${currency}` : ''} for ${asin}`);
+    return saved;
+  }
+
+  private asinOf(item: AmazonOrderItem): string | null {
+    return item.asin?.toUpperCase() || (item.productUrl ? extractAsin(item.productUrl) : null);
+  }
+}
+
+export const priceCatalog = new PriceCatalog();
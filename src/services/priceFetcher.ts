@@ -1,109 +1,221 @@
-import puppeteer from 'puppeteer';
+import puppeteer, { Browser, HTTPRequest, Page } from 'puppeteer';
 import * as cheerio from 'cheerio';
 import logger from '../utils/logger';
+import { config } from '../config';
+import { extractAsin } from '../utils/asin';
+import { detectMarketplace, MONEY_PATTERN, parseMoney, productPageUrl } from '../utils/marketplace';
+import { Money } from '../utils/money';
+
+// Resources a price lookup doesn't need; blocking them keeps page loads light
+const BLOCKED_RESOURCES = new Set(['image', 'font', 'media', 'stylesheet']);
 
 /**
- * Fetches product prices from Amazon product pages using Puppeteer
+ * Fetches product prices from Amazon product pages using Puppeteer.
+ *
+ * One browser is launched on first use and shared by all lookups, with at most
+ * `PRICE_FETCH_CONCURRENCY` pages open at once. Call close() on shutdown.
  */
 export class PriceFetcher {
+  private browser: Promise<Browser> | null = null;
+  private openPages = 0;
+  private waiting: (() => void)[] = [];
+  private nextRequestAt = new Map<string, number>(); // Per storefront domain
+
   /**
    * Fetch the price of a product from its Amazon URL
    */
-  async fetchPrice(productUrl: string): Promise<number | null> {
-    let browser = null;
-    try {
-      logger.info(`Fetching price from: ${productUrl}`);
+  async fetchPrice(productUrl: string): Promise<Money | null> {
+    logger.info(`Fetching price from: ${productUrl}`);
 
-      // Clean up the URL - extract just the product page
-      const cleanUrl = this.cleanProductUrl(productUrl);
-      if (!cleanUrl) {
-        logger.warn(`Invalid product URL: ${productUrl}`);
-        return null;
+    // Clean up the URL - extract just the product page
+    const cleanUrl = this.cleanProductUrl(productUrl);
+    if (!cleanUrl) {
+      logger.warn(`Invalid product URL: ${productUrl}`);
+      return null;
+    }
+
+    const { retries } = config.priceFetcher;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        const backoff = 1000 * 2 ** (attempt - 1);
+        logger.info(`Retrying ${cleanUrl} in ${backoff}ms (attempt ${attempt + 1} of ${retries + 1})`);
+        await this.delay(backoff);
       }
 
-      // Launch headless browser
-      browser = await puppeteer.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--disable-gpu',
-          '--window-size=1920x1080',
-        ],
-      });
+      try {
+        const price = await this.withPage((page) => this.loadPrice(page, cleanUrl));
+
+        if (price) {
+          logger.info(`Found price: $${price} for ${cleanUrl}`);
+          return price;
+        }
 
-      const page = await browser.newPage();
+        // The page loaded, so trying again won't find a price either
+        logger.warn(`Could not extract price from: ${cleanUrl}`);
+        return null;
+      } catch (error) {
+        logger.warn(`Error fetching price: ${error}`, { url: productUrl, attempt: attempt + 1 });
+      }
+    }
 
-      // Set viewport and user agent to appear more like a real browser
-      await page.setViewport({ width: 1920, height: 1080 });
-      await page.setUserAgent(
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-      );
+    logger.error(`Giving up on price after ${retries + 1} attempts`, { url: productUrl });
+    return null;
+  }
 
-      // Navigate to the product page
-      await page.goto(cleanUrl, {
-        waitUntil: 'domcontentloaded',
-        timeout: 30000,
-      });
+  /**
+   * Fetch prices for multiple products concurrently, in the order given
+   */
+  async fetchPrices(productUrls: string[]): Promise<(Money | null)[]> {
+    return Promise.all(productUrls.map((url) => this.fetchPrice(url)));
+  }
 
-      // Wait a bit for dynamic content to load
-      await new Promise(resolve => setTimeout(resolve, 2000));
+  /**
+   * Close the shared browser. A later lookup launches a new one.
+   */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (!browser) {
+      return;
+    }
 
-      // Get the page HTML
-      const html = await page.content();
+    try {
+      await (await browser).close();
+      logger.info('Closed price fetcher browser');
+    } catch (error) {
+      logger.error(`Error closing browser: ${error}`);
+    }
+  }
 
-      // Close the browser
-      await browser.close();
-      browser = null;
+  /**
+   * Load a product page and read its price
+   */
+  private async loadPrice(page: Page, url: string): Promise<Money | null> {
+    // Set viewport and user agent to appear more like a real browser
+    await page.setViewport({ width: 1920, height: 1080 });
+    await page.setUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    );
+
+    await page.setRequestInterception(true);
+    page.on('request', (request: HTTPRequest) => {
+      if (BLOCKED_RESOURCES.has(request.resourceType())) {
+        void request.abort();
+      } else {
+        void request.continue();
+      }
+    });
 
-      // Parse with Cheerio
-      const $ = cheerio.load(html);
+    // Navigate to the product page, spacing out requests to the same storefront
+    await this.waitForTurn(new URL(url).hostname);
+    await page.goto(url, {
+      waitUntil: 'domcontentloaded',
+      timeout: config.priceFetcher.timeoutMs,
+    });
 
-      // Try multiple selectors to find the price
-      const price = this.extractPriceFromPage($);
+    // Wait a bit for dynamic content to load
+    await this.delay(2000);
 
-      if (price) {
-        logger.info(`Found price: $${price} for ${cleanUrl}`);
-        return price;
-      }
+    // Parse with Cheerio and try multiple selectors to find the price
+    const $ = cheerio.load(await page.content());
+    return this.extractPriceFromPage($);
+  }
 
-      logger.warn(`Could not extract price from: ${cleanUrl}`);
-      return null;
-    } catch (error) {
-      logger.error(`Error fetching price: ${error}`, { url: productUrl });
-      return null;
+  /**
+   * Run a task on a new page of the shared browser, waiting for a free slot
+   * when the concurrency limit is reached
+   */
+  private async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    let page: Page | null = null;
+    try {
+      const browser = await this.getBrowser();
+      page = await browser.newPage();
+      return await task(page);
     } finally {
-      // Ensure browser is closed even if there's an error
-      if (browser) {
-        try {
-          await browser.close();
-        } catch (closeError) {
-          logger.error(`Error closing browser: ${closeError}`);
-        }
+      if (page) {
+        await page.close().catch((error) => logger.debug(`Error closing page: ${error}`));
       }
+      this.releaseSlot();
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.openPages < config.priceFetcher.concurrency) {
+      this.openPages++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    // Hand the slot straight to the next waiting lookup
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.openPages--;
     }
   }
 
   /**
-   * Fetch prices for multiple products concurrently (with rate limiting)
+   * Get the shared browser, launching it on first use or after it crashed
    */
-  async fetchPrices(productUrls: string[]): Promise<(number | null)[]> {
-    const results: (number | null)[] = [];
+  private getBrowser(): Promise<Browser> {
+    if (this.browser) {
+      return this.browser;
+    }
+
+    logger.info('Launching price fetcher browser');
+    const launched: Promise<Browser> = puppeteer
+      .launch({
+        headless: true,
+        args: [
+          '--no-sandbox',
+          '--disable-setuid-sandbox',
+          '--disable-dev-shm-usage',
+          '--disable-accelerated-2d-canvas',
+          '--disable-gpu',
+          '--window-size=1920x1080',
+        ],
+        // Shutdown is handled by the process signal handlers, which call close()
+        handleSIGINT: false,
+        handleSIGTERM: false,
+        handleSIGHUP: false,
+      })
+      .then((browser) => {
+        browser.on('disconnected', () => {
+          if (this.browser === launched) {
+            logger.warn('Price fetcher browser disconnected');
+            this.browser = null;
+          }
+        });
+        return browser;
+      })
+      .catch((error) => {
+        if (this.browser === launched) {
+          this.browser = null;
+        }
+        throw error;
+      });
 
-    // Fetch prices with a delay between requests to avoid rate limiting
-    for (const url of productUrls) {
-      const price = await this.fetchPrice(url);
-      results.push(price);
+    this.browser = launched;
+    return launched;
+  }
 
-      // Add a delay between requests (1-2 seconds)
-      if (productUrls.indexOf(url) < productUrls.length - 1) {
-        await this.delay(1000 + Math.random() * 1000);
-      }
+  /**
+   * Wait until the next request to a domain is allowed, 1-2x the configured
+   * interval after the previous one
+   */
+  private async waitForTurn(domain: string): Promise<void> {
+    const interval = config.priceFetcher.minIntervalMs;
+    const now = Date.now();
+    const at = Math.max(now, this.nextRequestAt.get(domain) || 0);
+    this.nextRequestAt.set(domain, at + interval + Math.random() * interval);
+
+    if (at > now) {
+      await this.delay(at - now);
     }
-
-    return results;
   }
 
   /**
@@ -111,21 +223,13 @@ export class PriceFetcher {
    */
   private cleanProductUrl(url: string): string | null {
     try {
-      // If it's a redirect URL, extract the actual URL
-      if (url.includes('amazon.com/gp/r.html')) {
-        const match = url.match(/U=([^&]+)/);
-        if (match) {
-          url = decodeURIComponent(match[1]);
-        }
-      }
-
       // Extract ASIN or product ID
-      const asinMatch = url.match(/\/dp\/([A-Z0-9]{10})/i) ||
-                       url.match(/\/gp\/product\/([A-Z0-9]{10})/i);
+      const asin = extractAsin(url);
 
-      if (asinMatch) {
-        const asin = asinMatch[1];
-        return `https://www.amazon.com/dp/${asin}`;
+      if (asin) {
+        // Fetch from the storefront the item was ordered from
+        const decodedUrl = url.includes('/gp/r.html') ? decodeURIComponent(url) : url;
+        return productPageUrl(asin, detectMarketplace(decodedUrl));
       }
 
       return null;
@@ -138,7 +242,7 @@ export class PriceFetcher {
   /**
    * Extract price from Amazon product page
    */
-  private extractPriceFromPage($: cheerio.CheerioAPI): number | null {
+  private extractPriceFromPage($: cheerio.CheerioAPI): Money | null {
     // Try multiple selectors in order of preference
     const selectors = [
       // Main price
@@ -162,29 +266,26 @@ export class PriceFetcher {
     for (const selector of selectors) {
       const priceText = $(selector).first().text().trim();
       if (priceText) {
-        // Extract numeric value
-        const cleanPrice = priceText.replace(/[^0-9.]/g, '');
-        const price = parseFloat(cleanPrice);
+        // Extract numeric value (handles both 1,234.56 and 1.234,56 formats)
+        const price = parseMoney(priceText, false);
 
-        if (!isNaN(price) && price > 0) {
+        if (price !== null && price.milliunits > 0) {
           return price;
         }
       }
     }
 
     // Last resort: Look for any element with a price pattern
-    const pricePattern = /\$\s*([\d,]+\.\d{2})/;
-    let foundPrice: number | null = null;
+    let foundPrice: Money | null = null;
 
     $('*').each((_, elem) => {
       if (foundPrice) return false; // Break if we found a price
 
       const text = $(elem).text();
-      const match = text.match(pricePattern);
 
-      if (match && !text.toLowerCase().includes('list') && !text.toLowerCase().includes('was')) {
-        const price = parseFloat(match[1].replace(/,/g, ''));
-        if (!isNaN(price) && price > 0 && price < 10000) {
+      if (MONEY_PATTERN.test(text) && !text.toLowerCase().includes('list') && !text.toLowerCase().includes('was')) {
+        const price = parseMoney(text);
+        if (price !== null && price.milliunits > 0 && price.toDecimal() < 10000) {
           foundPrice = price;
           return false; // Break
         }
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import logger from '../utils/logger';
+import { ReviewQueue } from './reviewQueue';
+import { orderLedger } from './orderLedger';
+import { ynabClient } from './ynabClient';
+import { YNABTransactionInput } from '../types';
+
+const ORDER = '123-4567890-1234567';
+
+const transaction = (importId: string, amount: number): YNABTransactionInput => ({
+  budgetId: 'budget-id',
+  accountId: 'account-id',
+  date: '2024-01-03',
+  amount,
+  payee_name: 'Amazon',
+  memo: importId,
+  import_id: importId,
+});
+
+describe('ReviewQueue.approve', () => {
+  const createTransactions = jest.spyOn(ynabClient, 'createTransactions');
+  const record = jest.spyOn(orderLedger, 'record');
+  let dir: string;
+  let queue: ReviewQueue;
+
+  beforeAll(() => {
+    logger.silent = true;
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'review-queue-'));
+    queue = new ReviewQueue(path.join(dir, 'review-queue.json'));
+    queue.add({
+      orderNumber: ORDER,
+      reasons: ['Large order'],
+      transactions: [transaction('AMZ:1', -1000), transaction('AMZ:2', -2000)],
+      ledger: { orderNumber: ORDER, grandTotal: 3 },
+    });
+    record.mockImplementation((entry) => ({ ...entry, createdAt: new Date().toISOString() }));
+  });
+
+  afterEach(() => {
+    createTransactions.mockReset();
+    record.mockReset();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('approves the review once every transaction is posted', async () => {
+    createTransactions.mockResolvedValue([
+      { transactionId: 'txn-1', importId: 'AMZ:1' },
+      { transactionId: 'txn-2', importId: 'AMZ:2' },
+    ]);
+
+    const result = await queue.approve(ORDER);
+
+    expect(result.status).toBe('success');
+    expect(queue.get(ORDER)?.status).toBe('approved');
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ transactionIds: ['txn-1', 'txn-2'] }));
+  });
+
+  it('keeps the review pending with the error when a transaction fails to post', async () => {
+    createTransactions.mockResolvedValue([{ transactionId: 'txn-1', importId: 'AMZ:1' }]);
+
+    const result = await queue.approve(ORDER);
+
+    expect(result).toMatchObject({ success: false, status: 'error', transactionIds: ['txn-1'] });
+    expect(queue.get(ORDER)).toMatchObject({
+      status: 'pending',
+      posted: [{ transactionId: 'txn-1', importId: 'AMZ:1' }],
+      error: expect.stringContaining('AMZ:2'),
+    });
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('only posts the missing transactions when approved again', async () => {
+    createTransactions.mockResolvedValueOnce([{ transactionId: 'txn-1', importId: 'AMZ:1' }]);
+    await queue.approve(ORDER);
+
+    const createTransaction = jest.spyOn(ynabClient, 'createTransaction').mockResolvedValue('txn-2');
+    const result = await queue.approve(ORDER);
+
+    expect(createTransaction).toHaveBeenCalledTimes(1);
+    expect(createTransaction).toHaveBeenCalledWith(expect.objectContaining({ import_id: 'AMZ:2' }));
+    createTransaction.mockRestore();
+    expect(result.transactionIds).toEqual(['txn-1', 'txn-2']);
+    expect(queue.get(ORDER)).toMatchObject({ status: 'approved', transactionIds: ['txn-1', 'txn-2'] });
+    expect(queue.get(ORDER)?.error).toBeUndefined();
+  });
+
+  it("doesn't let an edit change a transaction that was already posted", async () => {
+    createTransactions.mockResolvedValue([{ transactionId: 'txn-1', importId: 'AMZ:1' }]);
+    await queue.approve(ORDER);
+
+    expect(() => queue.edit(ORDER, { transactions: [{ amount: -1500 }] })).toThrow('already posted');
+    expect(queue.edit(ORDER, { transactions: [{}, { amount: -2500 }] }).transactions[1].amount).toBe(-2500);
+  });
+});
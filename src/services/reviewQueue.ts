@@ -0,0 +1,337 @@
+import path from 'path';
+import logger from '../utils/logger';
+import { config } from '../config';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { Money } from '../utils/money';
+import { ynabClient, DuplicateImportError } from './ynabClient';
+import { orderLedger } from './orderLedger';
+import {
+  CreatedTransaction,
+  ProcessResult,
+  ReviewEdit,
+  ReviewEntry,
+  ReviewStatus,
+  YNABTransactionInput,
+} from '../types';
+
+interface ReviewData {
+  orders: Record<string, ReviewEntry>; // Keyed by order number
+}
+
+/**
+ * Thrown when a review can't be changed: it isn't pending, or an edit is invalid
+ */
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * Orders whose transactions wait for someone to approve, edit or reject them
+ * before anything is posted to YNAB
+ */
+export class ReviewQueue {
+  private store: JsonFileStore<ReviewData>;
+
+  constructor(filePath: string = path.join(config.dataDir, 'review-queue.json')) {
+    this.store = new JsonFileStore<ReviewData>(filePath, () => ({ orders: {} }));
+  }
+
+  /**
+   * Get the review of an order
+   */
+  get(orderNumber: string): ReviewEntry | undefined {
+    return this.store.read().orders[orderNumber];
+  }
+
+  /**
+   * List reviews, oldest first; by default only the pending ones
+   */
+  list(status: ReviewStatus | 'all' = 'pending'): ReviewEntry[] {
+    return Object.values(this.store.read().orders)
+      .filter((entry) => status === 'all' || entry.status === status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Hold an order's planned transactions for review
+   */
+  add(entry: Omit<ReviewEntry, 'status' | 'createdAt'>): ReviewEntry {
+    const saved: ReviewEntry = { ...entry, status: 'pending', createdAt: new Date().toISOString() };
+    this.store.update((data) => {
+      data.orders[entry.orderNumber] = saved;
+    });
+    logger.info(`Order ${entry.orderNumber} is waiting for review: ${entry.reasons.join('; ')}`);
+    return saved;
+  }
+
+  /**
+   * Change the amounts, categories, memos, payees, dates or matched existing transactions
+   * of a pending review's transactions. The splits of a split transaction must still add up
+   * to its amount.
+   */
+  edit(orderNumber: string, edit: ReviewEdit): ReviewEntry {
+    const entry = this.getPending(orderNumber);
+
+    if (
+      !Array.isArray(edit?.transactions) ||
+      edit.transactions.length > entry.transactions.length
+    ) {
+      throw new ReviewError(`Expected up to ${entry.transactions.length} transaction edit(s)`);
+    }
+
+    const postedEdit = edit.transactions.findIndex(
+      (change, i) =>
+        Object.keys(change || {}).length > 0 &&
+        !!entry.posted?.some((done) => done.importId === entry.transactions[i].import_id)
+    );
+    if (postedEdit >= 0) {
+      throw new ReviewError(`Transaction ${postedEdit + 1} was already posted and can't be edited`);
+    }
+
+    const transactions = entry.transactions.map((transaction, i) =>
+      this.applyEdit(transaction, edit.transactions[i] || {})
+    );
+    transactions.forEach((transaction) => this.validate(transaction));
+
+    return this.save(orderNumber, (saved) => {
+      saved.transactions = transactions;
+    });
+  }
+
+  /**
+   * Post a pending review's transactions to YNAB and record the order in the ledger.
+   * When some transactions fail to post, the review stays pending with the error, and
+   * approving it again only posts the ones that are still missing.
+   */
+  async approve(orderNumber: string): Promise<ProcessResult> {
+    const entry = this.getPending(orderNumber);
+    const posted = entry.posted || [];
+    const remaining = entry.transactions.filter(
+      (transaction) => !posted.some((done) => done.importId === transaction.import_id)
+    );
+
+    let created: CreatedTransaction[];
+    try {
+      created =
+        remaining.length === 1
+          ? [
+              {
+                transactionId: await ynabClient.createTransaction(remaining[0]),
+                importId: remaining[0].import_id!,
+              },
+            ]
+          : await ynabClient.createTransactions(remaining);
+    } catch (error) {
+      if (!(error instanceof DuplicateImportError) || posted.length > 0) {
+        this.save(orderNumber, (saved) => {
+          saved.error = error instanceof Error ? error.message : String(error);
+        });
+        throw error;
+      }
+      this.save(orderNumber, (saved) => {
+        saved.status = 'approved';
+      });
+      return {
+        success: true,
+        status: 'duplicate',
+        orderNumber,
+        message: `YNAB already has transactions for order ${orderNumber}`,
+      };
+    }
+
+    // createTransactions logs and skips transactions that fail, so check they all came back
+    const all = [...posted, ...created];
+    const missing = entry.transactions.filter(
+      (transaction) => !all.some((done) => done.importId === transaction.import_id)
+    );
+    if (missing.length > 0) {
+      const message =
+        `Failed to post ${missing.length} of ${entry.transactions.length} transaction(s) for order ` +
+        `${orderNumber}: ${missing.map((transaction) => transaction.import_id).join(', ')}. ` +
+        'The review stays pending; approve it again to retry them.';
+      this.save(orderNumber, (saved) => {
+        saved.posted = all;
+        saved.error = message;
+      });
+      logger.error(message);
+      return {
+        success: false,
+        status: 'error',
+        orderNumber,
+        transactionIds: all.map((transaction) => transaction.transactionId),
+        importIds: all.map((transaction) => transaction.importId),
+        message,
+      };
+    }
+
+    // Record the transactions in the order they were planned
+    const ordered = entry.transactions.map(
+      (transaction) => all.find((done) => done.importId === transaction.import_id)!
+    );
+    const transactionIds = ordered.map((transaction) => transaction.transactionId);
+    const matched = entry.transactions
+      .map((transaction) => transaction.matchedTransactionId)
+      .filter((transactionId): transactionId is string => !!transactionId);
+    orderLedger.record({
+      ...entry.ledger,
+      transactionIds,
+      importIds: ordered.map((transaction) => transaction.importId),
+      matchedTransactionIds: matched.length > 0 ? matched : undefined,
+      items: this.withEditedAmounts(entry),
+    });
+    this.save(orderNumber, (saved) => {
+      saved.status = 'approved';
+      saved.transactionIds = transactionIds;
+      saved.posted = undefined;
+      saved.error = undefined;
+    });
+
+    logger.info(`Approved order ${orderNumber}: created ${transactionIds.length} transaction(s)`);
+
+    return {
+      success: true,
+      status: 'success',
+      orderNumber,
+      transactionIds,
+      importIds: ordered.map((transaction) => transaction.importId),
+      message: `Approved order ${orderNumber}: created ${transactionIds.length} transaction(s)`,
+    };
+  }
+
+  /**
+   * Reject a pending review. Nothing is posted, and the order is not imported again.
+   */
+  reject(orderNumber: string): ReviewEntry {
+    this.getPending(orderNumber);
+    logger.info(`Rejected order ${orderNumber}`);
+    return this.save(orderNumber, (saved) => {
+      saved.status = 'rejected';
+    });
+  }
+
+  private getPending(orderNumber: string): ReviewEntry {
+    const entry = this.get(orderNumber);
+    if (!entry) {
+      throw new ReviewError(`No review for order ${orderNumber}`);
+    }
+    if (entry.status !== 'pending') {
+      throw new ReviewError(`Order ${orderNumber} was already ${entry.status}`);
+    }
+    return entry;
+  }
+
+  private save(orderNumber: string, mutator: (entry: ReviewEntry) => void): ReviewEntry {
+    let updated: ReviewEntry | undefined;
+    this.store.update((data) => {
+      const entry = data.orders[orderNumber];
+      mutator(entry);
+      entry.updatedAt = new Date().toISOString();
+      updated = entry;
+    });
+    return updated!;
+  }
+
+  private applyEdit(
+    transaction: YNABTransactionInput,
+    edit: ReviewEdit['transactions'][number]
+  ): YNABTransactionInput {
+    const edited: YNABTransactionInput = {
+      ...transaction,
+      amount: edit.amount ?? transaction.amount,
+      payee_name: edit.payee_name ?? transaction.payee_name,
+      memo: edit.memo ?? transaction.memo,
+      date: edit.date ?? transaction.date,
+    };
+    if (edit.category_id !== undefined) {
+      edited.category_id = edit.category_id ?? undefined;
+    }
+    if (edit.matchedTransactionId !== undefined) {
+      edited.matchedTransactionId = edit.matchedTransactionId ?? undefined;
+    }
+
+    const { subtransactions } = edit;
+
+    if (subtransactions) {
+      if (
+        !transaction.subtransactions ||
+        subtransactions.length > transaction.subtransactions.length
+      ) {
+        throw new ReviewError(
+          `Transaction ${transaction.import_id} has no split to edit at that position`
+        );
+      }
+      edited.subtransactions = transaction.subtransactions.map((split, i) => {
+        const splitEdit = subtransactions[i] || {};
+        const editedSplit = {
+          ...split,
+          amount: splitEdit.amount ?? split.amount,
+          memo: splitEdit.memo ?? split.memo,
+        };
+        if (splitEdit.category_id !== undefined) {
+          editedSplit.category_id = splitEdit.category_id ?? undefined;
+        }
+        return editedSplit;
+      });
+    }
+
+    return edited;
+  }
+
+  private validate(transaction: YNABTransactionInput): void {
+    const amounts = [
+      transaction.amount,
+      ...(transaction.subtransactions || []).map((split) => split.amount),
+    ];
+    if (!amounts.every((amount) => Number.isInteger(amount))) {
+      throw new ReviewError('Amounts must be whole milliunits');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(transaction.date)) {
+      throw new ReviewError(`Invalid date: ${transaction.date}`);
+    }
+
+    if (transaction.subtransactions) {
+      const total = transaction.subtransactions.reduce((sum, split) => sum + split.amount, 0);
+      if (total !== transaction.amount) {
+        throw new ReviewError(
+          `Splits of ${transaction.import_id} add up to ${Money.fromMilliunits(total)}, not ${Money.fromMilliunits(transaction.amount)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Carry edited amounts over to the ledger items, so later cancellations re-post the
+   * right amounts. Converted orders keep their order-currency amounts, and payments
+   * posted to other accounts are left out.
+   */
+  private withEditedAmounts(entry: ReviewEntry): ReviewEntry['ledger']['items'] {
+    const { items, conversion, accountId } = entry.ledger;
+    if (!items || conversion) {
+      return items;
+    }
+
+    const transactions = entry.transactions.filter(
+      (transaction) => !accountId || transaction.accountId === accountId
+    );
+    const splits = transactions.length === 1 ? transactions[0].subtransactions : undefined;
+    const amounts = splits
+      ? splits.map((split) => split.amount)
+      : transactions.length === items.length
+        ? transactions.map((transaction) => transaction.amount)
+        : undefined;
+    if (!amounts || amounts.length !== items.length) {
+      return items;
+    }
+
+    return items.map((item, i) =>
+      item.amount === undefined
+        ? item
+        : { ...item, amount: Money.fromMilliunits(-amounts[i]).toDecimal() }
+    );
+  }
+}
+
+export const reviewQueue = new ReviewQueue();
@@ -0,0 +1,77 @@
+import fc from 'fast-check';
+import logger from '../utils/logger';
+import { Money } from '../utils/money';
+import { config } from '../config';
+import { TaxCalculator } from './taxCalculator';
+import { AllocationStrategy, AmazonOrderItem, OrderSummary } from '../types';
+
+const cents = (min: number, max: number) =>
+  fc.integer({ min, max }).map((value) => Money.fromMilliunits(value * 10));
+
+const item = fc.record({
+  name: fc.constantFrom('USB-C Cable', 'Phone Case', 'Coffee Beans', 'Dog Food'),
+  quantity: fc.integer({ min: 1, max: 5 }),
+  price: cents(1, 50_000),
+  discount: fc.option(cents(0, 500), { nil: undefined }),
+});
+
+const summary = fc.record(
+  {
+    shipping: cents(0, 2_000),
+    discounts: cents(0, 5_000),
+    tax: cents(0, 10_000),
+    giftCard: cents(0, 20_000),
+  },
+  { requiredKeys: [] }
+);
+
+const strategy = fc.constantFrom<AllocationStrategy>('proportional', 'per-item', 'first-item', 'equal');
+
+describe('TaxCalculator.calculateItemTaxes', () => {
+  const calculator = new TaxCalculator();
+  const defaultAllocation = { ...config.allocation };
+
+  beforeAll(() => {
+    logger.silent = true;
+  });
+
+  afterEach(() => {
+    Object.assign(config.allocation, defaultAllocation);
+  });
+
+  it('keeps the stated tax and treats unlisted credits as a discount', () => {
+    const items: AmazonOrderItem[] = [
+      { name: 'Phone Case', quantity: 1, price: Money.fromDecimal(10) },
+      { name: 'USB-C Cable', quantity: 1, price: Money.fromDecimal(11.1) },
+    ];
+    const { items: result, report } = calculator.calculateItemTaxes(items, Money.fromDecimal(15), {
+      tax: Money.fromDecimal(1),
+      grandTotal: Money.fromDecimal(15),
+    });
+
+    expect(report.tax.format()).toBe('1.00');
+    expect(result.map((r) => r.tax.format())).toEqual(['0.47', '0.53']);
+    expect(result.every((r) => !r.tax.isNegative())).toBe(true);
+    expect(Money.sum(result.map((r) => r.total)).format()).toBe('15.00');
+  });
+
+  it('always makes the item totals add up to the grand total', () => {
+    fc.assert(
+      fc.property(
+        fc.array(item, { minLength: 1, maxLength: 8 }),
+        fc.option(summary, { nil: undefined }),
+        cents(0, 200_000),
+        fc.tuple(strategy, strategy, strategy, strategy),
+        (items, orderSummary, grandTotal, [shipping, discounts, tax, giftCard]) => {
+          Object.assign(config.allocation, { shipping, discounts, tax, giftCard });
+          const fullSummary: OrderSummary | undefined = orderSummary && { ...orderSummary, grandTotal };
+
+          const { items: result } = calculator.calculateItemTaxes(items, grandTotal, fullSummary);
+
+          expect(result).toHaveLength(items.length);
+          expect(Money.sum(result.map((r) => r.total)).milliunits).toBe(grandTotal.milliunits);
+        }
+      )
+    );
+  });
+});
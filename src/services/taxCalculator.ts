@@ -1,111 +1,336 @@
+import fs from 'fs';
 import logger from '../utils/logger';
-import { AmazonOrderItem, ItemWithTax } from '../types';
+import { Money } from '../utils/money';
+import { config } from '../config';
+import {
+  AllocationStrategy,
+  AmazonOrderItem,
+  ItemWithTax,
+  OrderSummary,
+  TaxCalculation,
+  TaxClass,
+  TaxJurisdiction,
+  TaxRates,
+  TaxRulesConfig,
+} from '../types';
+
+interface CompiledTaxClass {
+  taxClass: TaxClass;
+  pattern?: RegExp;
+}
 
 /**
- * Calculates tax for individual items based on the order total
+ * Calculates tax, shipping, discounts and gift card payments for individual items
+ * based on the order total
  */
 export class TaxCalculator {
+  private classes: CompiledTaxClass[] = [];
+  private jurisdictions: TaxJurisdiction[] = [];
+  private defaultRates: TaxRates = {};
+  private rulesLoaded = false;
+
   /**
-   * Calculate tax for each item proportionally
+   * Load per-jurisdiction and per-class tax rates. Without a rules file every item
+   * is taxed at DEFAULT_TAX_RATE. Throws if the file is invalid.
+   */
+  initialize(rulesFile: string | undefined = config.taxRulesFile): void {
+    if (!rulesFile) {
+      logger.info(`No tax rules file configured, estimating tax at ${config.defaultTaxRate}`);
+      return;
+    }
+
+    const rules = this.loadRules(rulesFile);
+
+    this.classes = (rules.classes || []).map((taxClass, i) => {
+      if (!taxClass.name) {
+        throw new Error(`Tax class #${i + 1} in ${rulesFile} is missing "name"`);
+      }
+      return { taxClass, pattern: this.compilePattern(taxClass) };
+    });
+
+    const classNames = new Set(this.classes.map((compiled) => compiled.taxClass.name));
+    const allRates = [rules.default || {}, ...(rules.jurisdictions || [])];
+    const unknown = allRates.flatMap((rates) =>
+      Object.keys(rates.classRates || {}).filter((name) => !classNames.has(name))
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Tax rules reference unknown tax classes: ${[...new Set(unknown)].join(', ')}`);
+    }
+
+    (rules.jurisdictions || []).forEach((jurisdiction, i) => {
+      if (!jurisdiction.name || !Array.isArray(jurisdiction.match) || jurisdiction.match.length === 0) {
+        throw new Error(`Tax jurisdiction #${i + 1} in ${rulesFile} needs a "name" and a "match" list`);
+      }
+    });
+
+    this.jurisdictions = rules.jurisdictions || [];
+    this.defaultRates = rules.default || {};
+    this.rulesLoaded = true;
+
+    logger.info(
+      `Loaded ${this.jurisdictions.length} tax jurisdiction(s) and ${this.classes.length} tax class(es) from ${rulesFile}`
+    );
+  }
+
+  /**
+   * Split the order's shipping, discounts, tax and gift card payment across its items,
+   * each with its configured allocation strategy
    *
    * @param items - Items with their prices
-   * @param grandTotal - The grand total from the email (including tax)
-   * @returns Items with calculated tax
+   * @param grandTotal - The grand total from the email (the amount charged)
+   * @param summary - The order summary lines from the email, when available
+   * @param deliveryAddress - Used to pick the tax jurisdiction
+   * @returns Items with their share of each component (totals add up to the grand total),
+   *          and how the tax compares with the configured rates
    */
-  calculateItemTaxes(items: AmazonOrderItem[], grandTotal: number): ItemWithTax[] {
+  calculateItemTaxes(
+    items: AmazonOrderItem[],
+    grandTotal: Money,
+    summary?: OrderSummary,
+    deliveryAddress?: string
+  ): TaxCalculation {
     // Calculate total price of all items (without tax)
-    const subtotal = items.reduce((sum, item) => {
+    const subtotals = items.map((item) => {
       if (!item.price) {
         throw new Error(`Item "${item.name}" is missing price`);
       }
-      return sum + (item.price * item.quantity);
-    }, 0);
+      return item.price.multiply(item.quantity);
+    });
+    const subtotal = Money.sum(subtotals);
+    const weights = subtotals.map((value) => value.milliunits);
 
-    logger.info(`Subtotal: $${subtotal.toFixed(2)}, Grand Total: $${grandTotal.toFixed(2)}`);
+    logger.info(`Subtotal: $${subtotal}, Grand Total: $${grandTotal}`);
 
-    // Calculate total tax
-    const totalTax = grandTotal - subtotal;
+    const strategies = config.allocation;
+    const shipping = summary?.shipping ?? Money.ZERO;
+    const giftCard = summary?.giftCard ?? Money.ZERO;
+    const itemDiscounts = items.map((item) => item.discount ?? Money.ZERO);
+    const discounts = (summary?.discounts ?? Money.ZERO).max(Money.sum(itemDiscounts));
 
-    if (totalTax < 0) {
-      logger.warn('Calculated tax is negative. Using 0 tax.');
-      // If tax is negative, proportionally adjust prices
-      return this.adjustPricesProportionally(items, grandTotal);
-    }
+    const shippingShares = this.allocate(shipping, weights, strategies.shipping);
+    const discountShares = this.allocate(discounts, weights, strategies.discounts, itemDiscounts);
 
-    logger.info(`Total tax: $${totalTax.toFixed(2)}`);
+    // Tax each item is expected to carry under the delivery address's rates
+    const jurisdiction = this.findJurisdiction(deliveryAddress);
+    const rates = jurisdiction || this.defaultRates;
+    const expectedTaxes = items.map((item, i) =>
+      subtotals[i].subtract(discountShares[i]).max(Money.ZERO).multiply(this.rateFor(item, rates))
+    );
+    const estimatedTax = Money.sum(expectedTaxes);
 
-    // Distribute tax proportionally across items
-    const itemsWithTax: ItemWithTax[] = [];
-    let remainingTax = totalTax;
+    // Whatever the known lines don't explain is tax, unless the email states the tax.
+    // A negative remainder means credits the email didn't itemize (coupons, Subscribe & Save);
+    // then the stated tax is kept (or the tax is estimated from the rates) and the rest is
+    // treated as a discount.
+    const known = subtotal.add(shipping).subtract(discounts).subtract(giftCard);
+    const remainder = grandTotal.subtract(known);
+    let tax: Money;
+    let source: 'email' | 'implied' | 'estimated';
+    let extraDiscount = Money.ZERO;
+    if (summary?.tax !== undefined) {
+      source = 'email';
+      const unexplained = remainder.subtract(summary.tax);
+      if (unexplained.isNegative()) {
+        tax = summary.tax;
+        extraDiscount = unexplained.negate();
+        logger.warn(`Items cost $${extraDiscount} more than charged, treating it as a discount`);
+      } else {
+        if (unexplained.milliunits > 20) {
+          logger.warn(`Order lines differ from the grand total by $${unexplained}, adding it to tax`);
+        }
+        tax = remainder;
+      }
+    } else if (!remainder.isNegative()) {
+      tax = remainder;
+      source = 'implied';
+    } else {
+      tax = estimatedTax.min(grandTotal.max(Money.ZERO));
+      source = 'estimated';
+      extraDiscount = tax.subtract(remainder);
+      logger.warn(`Items cost $${extraDiscount} more than charged, treating it as a discount`);
+    }
 
-    for (let i = 0; i < items.length; i++) {
-      const item = items[i];
-      const itemSubtotal = item.price! * item.quantity;
-      const isLastItem = i === items.length - 1;
+    const extraShares = this.allocate(extraDiscount, weights, strategies.discounts);
+    const allDiscountShares = discountShares.map((share, i) => share.add(extraShares[i]));
 
-      let itemTax: number;
+    logger.info(
+      `Shipping: $${shipping}, Discounts: $${discounts.add(extraDiscount)}, Tax: $${tax}, Gift card: $${giftCard}`
+    );
 
-      if (isLastItem) {
-        // Last item gets the remaining tax (to handle rounding errors)
-        itemTax = remainingTax;
-      } else {
-        // Proportional tax: (item_subtotal / subtotal) * total_tax
-        itemTax = (itemSubtotal / subtotal) * totalTax;
-        remainingTax -= itemTax;
-      }
+    // With tax rules, tax follows each item's rate (exempt items get none);
+    // otherwise it is split by the configured strategy
+    const taxShares = this.rulesLoaded && estimatedTax.milliunits > 0
+      ? tax.allocate(expectedTaxes.map((value) => value.milliunits))
+      : this.allocate(tax, weights, strategies.tax);
+    const giftCardShares = this.allocate(giftCard, weights, strategies.giftCard);
+
+    const itemsWithTax: ItemWithTax[] = items.map((item, i) => {
+      const itemTotal = subtotals[i]
+        .add(shippingShares[i])
+        .subtract(allDiscountShares[i])
+        .add(taxShares[i])
+        .subtract(giftCardShares[i]);
 
-      const itemTotal = itemSubtotal + itemTax;
+      logger.debug(
+        `Item: ${item.name}, Subtotal: $${subtotals[i]}, Tax: $${taxShares[i]}, Total: $${itemTotal}`
+      );
 
-      itemsWithTax.push({
+      return {
         name: item.name,
         quantity: item.quantity,
+        asin: item.asin,
         pricePerUnit: item.price!,
-        subtotal: itemSubtotal,
-        tax: itemTax,
+        subtotal: subtotals[i],
+        shipping: shippingShares[i],
+        discount: allDiscountShares[i],
+        tax: taxShares[i],
+        giftCard: giftCardShares[i],
         total: itemTotal,
-      });
+      };
+    });
+
+    // Every component is allocated exactly, so the items always add up to the grand total
+    const calculatedTotal = Money.sum(itemsWithTax.map((item) => item.total));
+    if (!calculatedTotal.equals(grandTotal)) {
+      throw new Error(`Item totals ($${calculatedTotal}) do not add up to the grand total ($${grandTotal})`);
+    }
 
-      logger.debug(`Item: ${item.name}, Subtotal: $${itemSubtotal.toFixed(2)}, Tax: $${itemTax.toFixed(2)}, Total: $${itemTotal.toFixed(2)}`);
+    const discrepancy = tax.subtract(estimatedTax);
+    const where = jurisdiction ? ` for ${jurisdiction.name}` : '';
+    if (source !== 'estimated' && discrepancy.abs().milliunits > 50) {
+      logger.warn(`Tax of $${tax} differs from the $${estimatedTax} expected${where} by $${discrepancy}`);
     }
 
-    // Verify total matches grand total
-    const calculatedTotal = itemsWithTax.reduce((sum, item) => sum + item.total, 0);
-    const difference = Math.abs(calculatedTotal - grandTotal);
+    return {
+      items: itemsWithTax,
+      report: {
+        jurisdiction: jurisdiction?.name,
+        source,
+        tax,
+        estimatedTax,
+        discrepancy,
+      },
+    };
+  }
 
-    if (difference > 0.02) {
-      logger.warn(`Calculated total ($${calculatedTotal.toFixed(2)}) differs from grand total ($${grandTotal.toFixed(2)}) by $${difference.toFixed(2)}`);
+  /**
+   * Find the jurisdiction whose state code or name appears in the delivery address.
+   * Short codes ("TN") must match in upper case so words like "or" don't match.
+   */
+  private findJurisdiction(deliveryAddress?: string): TaxJurisdiction | undefined {
+    if (!deliveryAddress) {
+      return undefined;
     }
 
-    return itemsWithTax;
+    return this.jurisdictions.find((jurisdiction) =>
+      jurisdiction.match.some((value) => {
+        const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const flags = value.length <= 3 ? '' : 'i';
+        return new RegExp(`(?<![\\w])${escaped}(?![\\w])`, flags).test(deliveryAddress);
+      })
+    );
   }
 
   /**
-   * If we can't calculate tax (e.g., prices don't match), adjust prices proportionally
+   * Get an item's tax rate: the rate of the first matching tax class, or the standard rate
    */
-  private adjustPricesProportionally(items: AmazonOrderItem[], grandTotal: number): ItemWithTax[] {
-    const subtotal = items.reduce((sum, item) => sum + (item.price! * item.quantity), 0);
-    const ratio = grandTotal / subtotal;
+  private rateFor(item: AmazonOrderItem, rates: TaxRates): number {
+    const standard = rates.rate ?? this.defaultRates.rate ?? config.defaultTaxRate;
 
-    return items.map(item => {
-      const itemSubtotal = item.price! * item.quantity;
-      const adjustedTotal = itemSubtotal * ratio;
+    for (const { taxClass, pattern } of this.classes) {
+      if (this.matchesClass(taxClass, pattern, item)) {
+        const classRate = rates.classRates?.[taxClass.name] ?? this.defaultRates.classRates?.[taxClass.name];
+        return classRate ?? standard;
+      }
+    }
 
-      return {
-        name: item.name,
-        quantity: item.quantity,
-        pricePerUnit: item.price!,
-        subtotal: itemSubtotal,
-        tax: 0, // We're not separating tax in this case
-        total: adjustedTotal,
-      };
-    });
+    return standard;
+  }
+
+  /**
+   * Check whether an item belongs to a tax class (any listed condition matches)
+   */
+  private matchesClass(taxClass: TaxClass, pattern: RegExp | undefined, item: AmazonOrderItem): boolean {
+    const name = item.name.toLowerCase();
+    return (
+      (taxClass.keywords || []).some((keyword) => name.includes(keyword.toLowerCase())) ||
+      (pattern !== undefined && pattern.test(item.name)) ||
+      (item.asin !== undefined && (taxClass.asins || []).some((asin) => asin.toUpperCase() === item.asin))
+    );
+  }
+
+  /**
+   * Split an amount across items by their weights (subtotals). With the per-item strategy,
+   * amounts attributed to individual items stay with them and only the remainder is
+   * spread proportionally.
+   */
+  private allocate(
+    amount: Money,
+    weights: number[],
+    strategy: AllocationStrategy,
+    attributed?: Money[]
+  ): Money[] {
+    if (amount.isZero()) {
+      return weights.map(() => Money.ZERO);
+    }
+
+    switch (strategy) {
+      case 'first-item':
+        return weights.map((_, i) => (i === 0 ? amount : Money.ZERO));
+      case 'equal':
+        return amount.allocate(weights.map(() => 1));
+      case 'per-item': {
+        const own = attributed || weights.map(() => Money.ZERO);
+        const rest = amount.subtract(Money.sum(own)).allocate(weights);
+        return own.map((value, i) => value.add(rest[i]));
+      }
+      case 'proportional':
+      default:
+        return amount.allocate(weights);
+    }
+  }
+
+  /**
+   * Read and validate the tax rules file
+   */
+  private loadRules(rulesFile: string): TaxRulesConfig {
+    let parsed: TaxRulesConfig;
+    try {
+      parsed = JSON.parse(fs.readFileSync(rulesFile, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read tax rules file ${rulesFile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error(`Tax rules file ${rulesFile} must contain a JSON object`);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Compile a tax class's regular expression, failing on invalid patterns
+   */
+  private compilePattern(taxClass: TaxClass): RegExp | undefined {
+    if (!taxClass.pattern) {
+      return undefined;
+    }
+    try {
+      return new RegExp(taxClass.pattern, 'i');
+    } catch (error) {
+      throw new Error(
+        `Tax class "${taxClass.name}" has an invalid pattern "${taxClass.pattern}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
   }
 
   /**
    * Calculate tax for a single item order
    */
-  calculateSingleItemTax(itemPrice: number, grandTotal: number): number {
-    return grandTotal - itemPrice;
+  calculateSingleItemTax(itemPrice: Money, grandTotal: Money): Money {
+    return grandTotal.subtract(itemPrice);
   }
 }
 
@@ -0,0 +1,38 @@
+import { Money } from '../utils/money';
+import { ynabClient } from './ynabClient';
+import { ItemWithTax } from '../types';
+
+const item = (name: string, total: number): ItemWithTax => ({
+  name,
+  quantity: 1,
+  pricePerUnit: Money.fromDecimal(total),
+  subtotal: Money.fromDecimal(total),
+  tax: Money.ZERO,
+  total: Money.fromDecimal(total),
+});
+
+describe('YNABClient.planItemTransactions', () => {
+  beforeAll(() => {
+    process.env.YNAB_BUDGET_ID ??= 'budget-id';
+    process.env.YNAB_ACCOUNT_ID ??= 'account-id';
+  });
+
+  it('converts the order total once so the items add up to it', () => {
+    const items = [item('Pen', 0.05), item('Pencil', 0.05), item('Eraser', 0.05)];
+    const conversion = { from: 'EUR', to: 'USD', rate: 1.1 };
+
+    const transactions = ynabClient.planItemTransactions(items, '123-4567890-1234567', new Date(), conversion);
+
+    const total = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+    expect(total).toBe(Money.fromDecimal(0.15).multiply(1.1).negate().milliunits);
+    expect(total).toBe(-170);
+  });
+
+  it('posts each item total unchanged without a conversion', () => {
+    const items = [item('Pen', 1.23), item('Pencil', 4.56)];
+
+    const transactions = ynabClient.planItemTransactions(items, '123-4567890-1234567');
+
+    expect(transactions.map((transaction) => transaction.amount)).toEqual([-1230, -4560]);
+  });
+});
@@ -1,46 +1,286 @@
 import * as ynab from 'ynab';
+import crypto from 'crypto';
 import logger from '../utils/logger';
+import { formatDate } from '../utils/dates';
+import { Money } from '../utils/money';
 import { config } from '../config';
-import { ItemWithTax } from '../types';
+import { accountRouter } from './accountRouter';
+import {
+  CreatedTransaction,
+  CurrencyConversion,
+  ItemWithTax,
+  PaymentMethod,
+  YNABCategory,
+  YNABRoute,
+  YNABTransactionInput,
+} from '../types';
 import type { SaveTransaction } from 'ynab/dist/models/SaveTransaction';
-import { TransactionClearedStatus } from 'ynab/dist/models/TransactionClearedStatus';
+import type { SaveSubTransaction } from 'ynab/dist/models/SaveSubTransaction';
+import type { TransactionDetail } from 'ynab/dist/models/TransactionDetail';
+import type { TransactionClearedStatus } from 'ynab/dist/models/TransactionClearedStatus';
+
+/**
+ * Thrown when YNAB rejects a transaction because its import_id already exists
+ */
+export class DuplicateImportError extends Error {
+  constructor(public readonly importId: string) {
+    super(`Transaction with import_id ${importId} already exists in YNAB`);
+    this.name = 'DuplicateImportError';
+  }
+}
 
 /**
  * YNAB API client for creating transactions
  */
 export class YNABClient {
-  private api: ynab.API;
+  private client: ynab.API | null = null;
+  private budgetCurrencies = new Map<string, string | undefined>();
 
-  constructor() {
-    this.api = new ynab.API(config.ynab.apiToken);
+  /**
+   * The API client, created on first use so the token is only required when YNAB is called
+   */
+  private get api(): ynab.API {
+    if (!this.client) {
+      this.client = new ynab.API(config.ynab.apiToken);
+    }
+    return this.client;
   }
 
   /**
-   * Create a single transaction in YNAB
+   * Plan a single transaction. With a conversion, the amount is given in the
+   * order currency and is converted to the budget currency.
    */
-  async createTransaction(
-    amount: number,
+  planTransaction(
+    amount: Money,
     payeeName: string,
     memo: string,
-    date: Date = new Date()
-  ): Promise<string> {
-    try {
-      const transaction: SaveTransaction = {
-        account_id: config.ynab.accountId,
-        date: this.formatDate(date),
-        amount: this.convertToMilliunits(amount),
-        payee_name: payeeName,
-        memo: memo,
-        cleared: TransactionClearedStatus.Uncleared,
-        approved: true,
+    date: Date = new Date(),
+    importId?: string,
+    categoryId?: string,
+    conversion?: CurrencyConversion
+  ): YNABTransactionInput {
+    return {
+      budgetId: config.ynab.budgetId,
+      accountId: config.ynab.accountId,
+      date: formatDate(date),
+      amount: this.applyConversion(amount, conversion).milliunits,
+      payee_name: payeeName,
+      memo: this.withConversionNote(memo, amount, conversion),
+      category_id: categoryId,
+      cleared: 'uncleared',
+      approved: true,
+      import_id: importId,
+    };
+  }
+
+  /**
+   * Plan one split transaction for an order, with a subtransaction per item.
+   * The subtransaction amounts are reconciled so they sum exactly to the parent.
+   */
+  planSplitTransaction(
+    items: ItemWithTax[],
+    orderNumber: string,
+    grandTotal: Money,
+    date: Date = new Date(),
+    importId: string = this.buildImportId(orderNumber),
+    conversion?: CurrencyConversion
+  ): YNABTransactionInput {
+    const parentAmount = this.applyConversion(grandTotal, conversion).negate();
+    const splitAmounts = parentAmount.allocate(items.map((item) => item.total.milliunits));
+
+    const subtransactions = items.map((item, i) => {
+      const breakdown = this.describeAllocation(item);
+      const name = `${item.name}${item.quantity > 1 ? ` (Qty: ${item.quantity})` : ''}`;
+      return {
+        amount: splitAmounts[i].milliunits,
+        memo: this.truncate(name, 200 - breakdown.length) + breakdown,
+        category_id: item.categoryId,
       };
+    });
+
+    return {
+      budgetId: config.ynab.budgetId,
+      accountId: config.ynab.accountId,
+      date: formatDate(date),
+      amount: parentAmount.milliunits,
+      payee_name: 'Amazon',
+      memo: this.withConversionNote(`Order #${orderNumber}`, grandTotal, conversion),
+      cleared: 'uncleared',
+      approved: true,
+      import_id: importId,
+      subtransactions,
+    };
+  }
+
+  /**
+   * Plan one transaction per item (for multi-item orders). With a conversion, the order
+   * total is converted once and split across the items, so they still add up exactly.
+   */
+  planItemTransactions(
+    items: ItemWithTax[],
+    orderNumber: string,
+    date: Date = new Date(),
+    conversion?: CurrencyConversion
+  ): YNABTransactionInput[] {
+    const convertedAmounts = conversion
+      ? this.applyConversion(Money.sum(items.map((item) => item.total)), conversion)
+          .negate()
+          .allocate(items.map((item) => item.total.milliunits))
+      : undefined;
+
+    return items.map((item, i) => {
+      // Create a descriptive payee name and memo
+      const payeeName = `Amazon - ${this.truncate(item.name, 50)}`;
+      const memo = `Order #${orderNumber}${item.quantity > 1 ? ` (Qty: ${item.quantity})` : ''}${this.describeAllocation(item)}`;
+
+      const transaction = this.planTransaction(
+        item.total.negate(), // Negative because it's an expense
+        payeeName,
+        memo,
+        date,
+        this.buildImportId(orderNumber, i + 1),
+        item.categoryId,
+        conversion
+      );
+      return convertedAmounts ? { ...transaction, amount: convertedAmounts[i].milliunits } : transaction;
+    });
+  }
+
+  /**
+   * Plan a single consolidated transaction for an order
+   */
+  planConsolidatedTransaction(
+    orderNumber: string,
+    grandTotal: Money,
+    itemNames: string[],
+    date: Date = new Date(),
+    categoryId?: string,
+    conversion?: CurrencyConversion
+  ): YNABTransactionInput {
+    const payeeName = 'Amazon';
+
+    // Create memo with item names (truncated if too long)
+    let memo = `Order #${orderNumber}: ${itemNames.join(', ')}`;
+    if (memo.length > 200) {
+      memo = `Order #${orderNumber}: ${itemNames.length} items`;
+    }
+
+    return this.planTransaction(
+      grandTotal.negate(),
+      payeeName,
+      memo,
+      date,
+      this.buildImportId(orderNumber),
+      categoryId,
+      conversion
+    );
+  }
+
+  /**
+   * Plan the part of an order paid with another card, a gift card or reward points,
+   * for that payment's account. The amount is split across the items by weight, with a
+   * subtransaction per item unless they all share a category.
+   */
+  planPaymentTransaction(
+    orderNumber: string,
+    payment: PaymentMethod,
+    items: { name: string; weight: number; categoryId?: string }[],
+    importId: string,
+    date: Date = new Date(),
+    conversion?: CurrencyConversion
+  ): YNABTransactionInput {
+    const categoryIds = new Set(items.map((item) => item.categoryId));
+    const prefix = `Order #${orderNumber}, ${payment.label}`;
+    let memo = `${prefix}: ${items.map((item) => item.name).join(', ')}`;
+    if (memo.length > 200) {
+      memo = `${prefix}: ${items.length} items`;
+    }
+
+    const transaction = this.planTransaction(
+      payment.amount.negate(),
+      'Amazon',
+      memo,
+      date,
+      importId,
+      categoryIds.size === 1 ? items[0].categoryId : undefined,
+      conversion
+    );
+    if (categoryIds.size === 1) {
+      return transaction;
+    }
+
+    const splitAmounts = Money.fromMilliunits(transaction.amount).allocate(
+      items.map((item) => item.weight)
+    );
+    return {
+      ...transaction,
+      subtransactions: items.map((item, i) => ({
+        amount: splitAmounts[i].milliunits,
+        memo: this.truncate(item.name, 200),
+        category_id: item.categoryId,
+      })),
+    };
+  }
+
+  /**
+   * Plan an inflow transaction for a refund, linked by memo to the original order
+   */
+  planRefundTransaction(
+    orderNumber: string,
+    refundTotal: Money,
+    itemNames: string[],
+    originalTransactionId?: string,
+    date: Date = new Date(),
+    categoryId?: string,
+    conversion?: CurrencyConversion
+  ): YNABTransactionInput {
+    const payeeName = 'Amazon';
+
+    const prefix = originalTransactionId
+      ? `Refund for Order #${orderNumber} (orig. txn ${originalTransactionId.substring(0, 8)})`
+      : `Refund for Order #${orderNumber}`;
+
+    // Create memo with item names (truncated if too long)
+    let memo = itemNames.length > 0 ? `${prefix}: ${itemNames.join(', ')}` : prefix;
+    if (memo.length > 200) {
+      memo = `${prefix}: ${itemNames.length} items`;
+    }
 
-      logger.info(`Creating YNAB transaction: ${payeeName} - $${amount.toFixed(2)}`);
+    return this.planTransaction(
+      refundTotal, // Positive because it's an inflow
+      payeeName,
+      memo,
+      date,
+      this.buildRefundImportId(orderNumber, refundTotal, itemNames),
+      categoryId,
+      conversion
+    );
+  }
 
-      const response = await this.api.transactions.createTransaction(config.ynab.budgetId, {
-        transaction,
+  /**
+   * Post a planned transaction to YNAB and return its ID. A transaction matched to an
+   * existing one updates that transaction instead.
+   */
+  async createTransaction(transaction: YNABTransactionInput): Promise<string> {
+    if (transaction.matchedTransactionId) {
+      return this.updateMatchedTransaction(transaction, transaction.matchedTransactionId);
+    }
+
+    const importId = transaction.import_id;
+    logger.info(
+      `Creating YNAB transaction: ${transaction.payee_name} - $${Money.fromMilliunits(transaction.amount)}` +
+        (transaction.subtransactions ? ` (${transaction.subtransactions.length} subtransactions)` : '')
+    );
+
+    try {
+      const response = await this.api.transactions.createTransaction(transaction.budgetId, {
+        transaction: this.toSaveTransaction(transaction),
       });
 
+      if (importId && response.data.duplicate_import_ids?.includes(importId)) {
+        throw new DuplicateImportError(importId);
+      }
+
       const createdId = response.data.transaction_ids?.[0];
       if (!createdId) {
         throw new Error('YNAB response missing transaction id');
@@ -49,6 +289,10 @@ export class YNABClient {
 
       return createdId;
     } catch (error) {
+      if (error instanceof DuplicateImportError) {
+        logger.warn(error.message);
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
       logger.error(`Error creating YNAB transaction: ${errorMessage}`, {
         error,
@@ -58,65 +302,165 @@ export class YNABClient {
   }
 
   /**
-   * Create multiple transactions in YNAB (for multi-item orders)
+   * Post several planned transactions (e.g. one per item). A transaction that fails is
+   * skipped; a duplicate stops the run, since it means the order was already imported.
    */
-  async createTransactions(
-    items: ItemWithTax[],
-    orderNumber: string,
-    date: Date = new Date()
-  ): Promise<string[]> {
-    const transactionIds: string[] = [];
+  async createTransactions(transactions: YNABTransactionInput[]): Promise<CreatedTransaction[]> {
+    const created: CreatedTransaction[] = [];
 
-    for (const item of items) {
+    for (const transaction of transactions) {
       try {
-        // Create a descriptive payee name and memo
-        const payeeName = `Amazon - ${this.truncate(item.name, 50)}`;
-        const memo = `Order #${orderNumber}${item.quantity > 1 ? ` (Qty: ${item.quantity})` : ''}`;
-
-        const transactionId = await this.createTransaction(
-          -item.total, // Negative because it's an expense
-          payeeName,
-          memo,
-          date
-        );
-
-        transactionIds.push(transactionId);
+        const transactionId = await this.createTransaction(transaction);
+        created.push({ transactionId, importId: transaction.import_id! });
 
         // Small delay between transactions to avoid rate limiting
         await this.delay(100);
       } catch (error) {
-        logger.error(`Failed to create transaction for item: ${item.name}`, error);
+        // A duplicate means this order was already imported - stop here
+        if (error instanceof DuplicateImportError) {
+          throw error;
+        }
+        logger.error(`Failed to create transaction: ${transaction.memo}`, error);
         // Continue with other items even if one fails
       }
     }
 
-    return transactionIds;
+    return created;
   }
 
   /**
-   * Create a single consolidated transaction for an order
+   * Find existing transactions a planned one could be matched to: unapproved or uncleared
+   * transactions of its account with the same amount, dated within the window, that
+   * were not created by this service and aren't splits or transfers
    */
-  async createConsolidatedTransaction(
-    orderNumber: string,
-    grandTotal: number,
-    itemNames: string[],
-    date: Date = new Date()
-  ): Promise<string> {
-    const payeeName = 'Amazon';
+  async findMatchingTransactions(
+    transaction: YNABTransactionInput,
+    windowDays: number = config.matching.windowDays
+  ): Promise<TransactionDetail[]> {
+    const day = 24 * 60 * 60 * 1000;
+    const date = Date.parse(`${transaction.date}T00:00:00Z`);
+    const sinceDate = new Date(date - windowDays * day).toISOString().substring(0, 10);
 
-    // Create memo with item names (truncated if too long)
-    let memo = `Order #${orderNumber}: ${itemNames.join(', ')}`;
-    if (memo.length > 200) {
-      memo = `Order #${orderNumber}: ${itemNames.length} items`;
-    }
+    const response = await this.api.transactions.getTransactionsByAccount(
+      transaction.budgetId,
+      transaction.accountId,
+      sinceDate
+    );
+
+    return response.data.transactions.filter(
+      (candidate) =>
+        !candidate.deleted &&
+        candidate.amount === transaction.amount &&
+        (!candidate.approved || candidate.cleared === 'uncleared') &&
+        !candidate.import_id?.startsWith('AMZ') &&
+        !candidate.transfer_account_id &&
+        candidate.subtransactions.length === 0 &&
+        Math.abs(Date.parse(`${candidate.date}T00:00:00Z`) - date) <= windowDays * day
+    );
+  }
+
+  /**
+   * Build a deterministic import_id for a refund. An order can have several refunds,
+   * so the amount and refunded items are hashed into the ID.
+   */
+  buildRefundImportId(orderNumber: string, refundTotal: Money, itemNames: string[]): string {
+    const hash = crypto
+      .createHash('sha1')
+      .update(`${refundTotal.format()}|${itemNames.join('|')}`)
+      .digest('hex')
+      .substring(0, 8);
+    return `AMZR:${orderNumber}:${hash}`;
+  }
+
+  /**
+   * Build a deterministic import_id so YNAB rejects re-imports of the same order.
+   * Item transactions are numbered from 1, re-posted transactions use an "r<n>" suffix,
+   * payments posted to other accounts a "p<n>" suffix, shipments charged on their own an
+   * "s<n>" suffix, and the consolidated (or split) transaction has no suffix.
+   */
+  buildImportId(orderNumber: string, suffix?: number | string): string {
+    const base = `AMZ:${orderNumber}`;
+    return suffix === undefined ? base : `${base}:${suffix}`;
+  }
+
+  /**
+   * Change the date of an existing transaction
+   */
+  async updateTransactionDate(
+    transactionId: string,
+    date: Date,
+    budgetId: string = config.ynab.budgetId
+  ): Promise<void> {
+    logger.info(`Updating date of YNAB transaction ${transactionId} to ${formatDate(date)}`);
+
+    await this.api.transactions.updateTransaction(budgetId, transactionId, {
+      transaction: { date: formatDate(date) },
+    });
+  }
+
+  /**
+   * Delete a transaction
+   */
+  async deleteTransaction(transactionId: string, budgetId: string = config.ynab.budgetId): Promise<void> {
+    logger.info(`Deleting YNAB transaction ${transactionId}`);
+
+    await this.api.transactions.deleteTransaction(budgetId, transactionId);
+  }
+
+  /**
+   * List the budget's active (non-hidden, non-deleted) categories
+   */
+  async getCategories(budgetId: string = config.ynab.budgetId): Promise<YNABCategory[]> {
+    const response = await this.api.categories.getCategories(budgetId);
+
+    return response.data.category_groups
+      .filter((group) => !group.deleted && !group.hidden)
+      .flatMap((group) =>
+        group.categories
+          .filter((category) => !category.deleted && !category.hidden)
+          .map((category) => ({
+            id: category.id,
+            name: category.name,
+            groupName: group.name,
+          }))
+      );
+  }
+
+  /**
+   * Fetch budget transactions changed since the given server knowledge
+   * (or all transactions when omitted)
+   */
+  async getTransactionsDelta(
+    lastKnowledgeOfServer?: number
+  ): Promise<{ transactions: TransactionDetail[]; serverKnowledge: number }> {
+    const response = await this.api.transactions.getTransactions(
+      config.ynab.budgetId,
+      undefined,
+      undefined,
+      lastKnowledgeOfServer
+    );
+
+    return {
+      transactions: response.data.transactions,
+      serverKnowledge: response.data.server_knowledge,
+    };
+  }
 
-    return this.createTransaction(-grandTotal, payeeName, memo, date);
+  /**
+   * Get the ISO currency code of the budget (e.g. "USD")
+   */
+  async getBudgetCurrency(budgetId: string = config.ynab.budgetId): Promise<string | undefined> {
+    if (!this.budgetCurrencies.has(budgetId)) {
+      const response = await this.api.budgets.getBudgetSettingsById(budgetId);
+      this.budgetCurrencies.set(budgetId, response.data.settings.currency_format?.iso_code);
+    }
+    return this.budgetCurrencies.get(budgetId);
   }
 
   /**
-   * Verify YNAB connection and configuration
+   * Verify the YNAB connection and that every route's budget and accounts exist
    */
-  async verifyConnection(): Promise<boolean> {
+  async verifyConnection(routes: YNABRoute[] = accountRouter.listRoutes()): Promise<boolean> {
     try {
       logger.info('Verifying YNAB connection...');
 
@@ -124,25 +468,42 @@ export class YNABClient {
       const userResponse = await this.api.user.getUser();
       logger.info(`Connected as: ${userResponse.data.user.id}`);
 
-      // Verify budget exists
-      const budgetResponse = await this.api.budgets.getBudgetById(config.ynab.budgetId);
-      logger.info(`Budget: ${budgetResponse.data.budget.name}`);
+      let verified = true;
+      for (const budgetId of new Set(routes.map((route) => route.budgetId))) {
+        // Verify budget exists
+        const budgetResponse = await this.api.budgets.getBudgetById(budgetId);
+        logger.info(`Budget: ${budgetResponse.data.budget.name}`);
+        this.budgetCurrencies.set(budgetId, budgetResponse.data.budget.currency_format?.iso_code);
 
-      // Verify account exists
-      const accountsResponse = await this.api.accounts.getAccounts(config.ynab.budgetId);
-      const account = accountsResponse.data.accounts.find(
-        (acc) => acc.id === config.ynab.accountId
-      );
+        // Verify the accounts of its routes exist
+        const accountsResponse = await this.api.accounts.getAccounts(budgetId);
+        for (const route of routes.filter((candidate) => candidate.budgetId === budgetId)) {
+          const accounts: [string, string | undefined][] = [
+            ['Account', route.accountId],
+            ['Gift card account', route.giftCardAccountId],
+            ['Reward points account', route.rewardPointsAccountId],
+          ];
+          for (const [label, accountId] of accounts) {
+            if (!accountId) continue;
+            const account = accountsResponse.data.accounts.find(
+              (acc) => acc.id === accountId && !acc.deleted
+            );
 
-      if (!account) {
-        logger.error(`Account ${config.ynab.accountId} not found in budget`);
-        return false;
-      }
+            if (!account) {
+              logger.error(`${label} ${accountId} of route "${route.name}" not found in budget ${budgetId}`);
+              verified = false;
+              continue;
+            }
 
-      logger.info(`Account: ${account.name} (${account.type})`);
-      logger.info('YNAB connection verified successfully');
+            logger.info(`${label}: ${account.name} (${account.type}) for route "${route.name}"`);
+          }
+        }
+      }
 
-      return true;
+      if (verified) {
+        logger.info('YNAB connection verified successfully');
+      }
+      return verified;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
       logger.error(`Error verifying YNAB connection: ${errorMessage}`, {
@@ -153,20 +514,87 @@ export class YNABClient {
   }
 
   /**
-   * Convert dollar amount to YNAB milliunits (e.g., $12.34 = 12340)
+   * Give an existing transaction the planned payee, memo, category and splits, and
+   * approve it. Its date, amount and cleared status stay as the bank reported them.
+   */
+  private async updateMatchedTransaction(
+    transaction: YNABTransactionInput,
+    transactionId: string
+  ): Promise<string> {
+    logger.info(
+      `Updating matched YNAB transaction ${transactionId}: ${transaction.payee_name} - $${Money.fromMilliunits(transaction.amount)}` +
+        (transaction.subtransactions ? ` (${transaction.subtransactions.length} subtransactions)` : '')
+    );
+
+    await this.api.transactions.updateTransaction(transaction.budgetId, transactionId, {
+      transaction: {
+        payee_name: transaction.payee_name,
+        memo: transaction.memo,
+        category_id: transaction.category_id,
+        approved: true,
+        subtransactions: transaction.subtransactions as SaveSubTransaction[] | undefined,
+      },
+    });
+
+    return transactionId;
+  }
+
+  /**
+   * Convert a planned transaction to the YNAB API's request shape
+   */
+  private toSaveTransaction(transaction: YNABTransactionInput): SaveTransaction {
+    return {
+      account_id: transaction.accountId,
+      date: transaction.date,
+      amount: transaction.amount,
+      payee_name: transaction.payee_name,
+      memo: transaction.memo,
+      category_id: transaction.category_id,
+      cleared: transaction.cleared as TransactionClearedStatus | undefined,
+      approved: transaction.approved,
+      import_id: transaction.import_id,
+      subtransactions: transaction.subtransactions as SaveSubTransaction[] | undefined,
+    };
+  }
+
+  /**
+   * Describe the shipping, discount, tax and gift card shares of an item for its memo.
+   * Empty for items that only carry tax, to keep ordinary memos short.
+   */
+  private describeAllocation(item: ItemWithTax): string {
+    const hasAdjustments = [item.shipping, item.discount, item.giftCard].some(
+      (value) => value !== undefined && !value.isZero()
+    );
+    if (!hasAdjustments) return '';
+
+    const parts: [string, Money | undefined][] = [
+      ['shipping', item.shipping],
+      ['discount', item.discount?.negate()],
+      ['tax', item.tax],
+      ['gift card', item.giftCard?.negate()],
+    ];
+
+    const described = parts
+      .filter((part): part is [string, Money] => part[1] !== undefined && !part[1].isZero())
+      .map(([label, value]) => `${label} ${value}`);
+
+    return ` [${described.join(', ')}]`;
+  }
+
+  /**
+   * Convert an amount in the order currency to the budget currency
    */
-  private convertToMilliunits(amount: number): number {
-    return Math.round(amount * 1000);
+  private applyConversion(amount: Money, conversion?: CurrencyConversion): Money {
+    return conversion ? amount.multiply(conversion.rate) : amount;
   }
 
   /**
-   * Format date as YYYY-MM-DD for YNAB API
+   * Append the original amount and rate to a memo, keeping it within YNAB's 200 characters
    */
-  private formatDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  private withConversionNote(memo: string, amount: Money, conversion?: CurrencyConversion): string {
+    if (!conversion) return memo;
+    const note = ` (${conversion.from} ${amount.abs()} @ ${conversion.rate.toFixed(4)})`;
+    return this.truncate(memo, 200 - note.length) + note;
   }
 
   /**
@@ -1,19 +1,87 @@
+import type { Money } from './utils/money';
+
 export interface AmazonOrderItem {
   name: string;
   quantity: number;
   productUrl?: string;
-  price?: number; // Price per unit (if available from email)
-  totalPrice?: number; // Total price for this item (price * quantity)
+  asin?: string;
+  price?: Money; // Price per unit (if available from email)
+  totalPrice?: Money; // Total price for this item (price * quantity)
+  discount?: Money; // Promotion applied to this item in the email, as a positive amount
+}
+
+export interface Marketplace {
+  domain: string; // e.g. "amazon.co.uk"
+  currency: string; // ISO 4217 code
+  grandTotalLabels: string[]; // Localized labels for the order total, in order of preference
 }
 
 export interface AmazonOrder {
   orderNumber: string;
-  grandTotal: number;
+  grandTotal: Money;
   items: AmazonOrderItem[];
+  marketplace?: string; // Storefront domain, e.g. "amazon.de"
+  currency?: string; // ISO 4217 code of grandTotal and item prices
   orderDate?: Date;
   deliveryAddress?: string;
+  paymentLast4?: string; // Last four digits of the card charged
+  payments?: PaymentMethod[]; // How the order was paid, when the email says
+  amazonAccount?: string; // Name the email greets, identifying the Amazon account
+  summary?: OrderSummary; // Order summary lines, when the email has them
+}
+
+export type PaymentType = 'card' | 'gift-card' | 'reward-points';
+
+/** One way an order was paid. Card amounts add up to the grand total. */
+export interface PaymentMethod {
+  type: PaymentType;
+  label: string; // e.g. "Visa ending in 1234", "Gift card"
+  last4?: string; // Cards only
+  amount: Money; // Positive
+}
+
+/**
+ * The order summary block of a confirmation email. Credits (discounts, gift card)
+ * are positive amounts; grandTotal is what was charged to the card.
+ */
+export interface OrderSummary {
+  itemSubtotal?: Money;
+  shipping?: Money;
+  discounts?: Money; // Promotions, coupons and Subscribe & Save savings
+  totalBeforeTax?: Money;
+  tax?: Money;
+  giftCard?: Money; // Gift card balance and reward points applied
+  grandTotal: Money;
 }
 
+export interface AmazonRefund {
+  orderNumber: string;
+  refundTotal: Money;
+  currency?: string; // ISO 4217 code of refundTotal
+  items: AmazonOrderItem[];
+}
+
+export interface ParsedRefundEmail {
+  refund: AmazonRefund;
+  rawHtml: string;
+  rawText: string;
+}
+
+export interface AmazonCancellation {
+  orderNumber: string;
+  items: AmazonOrderItem[]; // Cancelled items (may be empty for full cancellations)
+  fullOrder: boolean;
+}
+
+export interface AmazonShipment {
+  orderNumber: string;
+  shipDate?: Date;
+  items: AmazonOrderItem[];
+  charge?: Money; // Amount charged for this shipment, when the email states it
+}
+
+export type EmailType = 'order' | 'refund' | 'cancellation' | 'shipment' | 'unknown';
+
 export interface ParsedEmail {
   order: AmazonOrder;
   rawHtml: string;
@@ -23,21 +91,46 @@ export interface ParsedEmail {
 export interface ItemWithTax {
   name: string;
   quantity: number;
-  pricePerUnit: number;
-  subtotal: number;
-  tax: number;
-  total: number;
+  asin?: string;
+  pricePerUnit: Money;
+  subtotal: Money;
+  shipping?: Money; // Allocated share of shipping & handling
+  discount?: Money; // Allocated promotions and discounts, as a positive amount
+  tax: Money;
+  giftCard?: Money; // Allocated gift card / reward points payment, as a positive amount
+  total: Money; // subtotal + shipping - discount + tax - giftCard
+  categoryId?: string;
 }
 
+/**
+ * How an order-level amount is split across items:
+ * - proportional: by item subtotal
+ * - per-item: amounts the email attributes to an item stay with it, the rest is proportional
+ * - first-item: all of it goes to the first item
+ * - equal: the same share for every item
+ */
+export type AllocationStrategy = 'proportional' | 'per-item' | 'first-item' | 'equal';
+
+/** A transaction as it will be posted to YNAB */
 export interface YNABTransactionInput {
+  budgetId: string;
   accountId: string;
   date: string; // YYYY-MM-DD format
   amount: number; // In milliunits (e.g., -12.34 = -12340)
   payee_name?: string;
   memo?: string;
+  category_id?: string;
   cleared?: 'cleared' | 'uncleared' | 'reconciled';
   approved?: boolean;
   import_id?: string;
+  subtransactions?: YNABSubtransactionInput[];
+  matchedTransactionId?: string; // Existing (bank-imported) transaction to update instead of creating one
+}
+
+export interface YNABSubtransactionInput {
+  amount: number; // In milliunits; subtransactions add up to the parent amount
+  memo?: string;
+  category_id?: string;
 }
 
 export interface Config {
@@ -47,10 +140,69 @@ export interface Config {
     apiToken: string;
     budgetId: string;
     accountId: string;
+    splitTransactions: boolean;
+    giftCardAccountId?: string; // Gift card payments are posted here, when set
+    rewardPointsAccountId?: string; // Reward points payments are posted here, when set
+  };
+  updateDateOnShipment: boolean;
+  chargePerShipment: boolean; // Re-split orders into one transaction per shipment charge
+  matching: {
+    enabled: boolean; // Update matching bank-imported transactions instead of creating new ones
+    windowDays: number; // How many days apart the bank transaction's date may be
   };
+  dryRun: boolean; // Never post to YNAB, only report what would be posted
   webhookSecret?: string;
   defaultTaxRate: number;
   logLevel: string;
+  timezone: string; // IANA timezone used for transaction dates
+  dataDir: string;
+  categoryRulesFile?: string;
+  taxRulesFile?: string;
+  routesFile?: string; // Rules for posting orders to other budgets and accounts
+  exchangeRates: {
+    provider: 'fixed' | 'frankfurter';
+    ratesFile?: string; // JSON file for the fixed provider
+  };
+  gmail: {
+    clientId?: string;
+    clientSecret?: string;
+    refreshToken?: string;
+    labelId?: string; // Only process messages with this label
+    senders: string[]; // Only process messages from these addresses or domains (default: Amazon)
+  };
+  imap: {
+    host?: string; // Polling is enabled when set
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    mailbox: string;
+    processedFolder?: string; // Processed messages are moved here
+    pollIntervalMinutes: number;
+  };
+  categoryLearning: {
+    threshold: number; // Minimum confidence to auto-apply a learned category
+    syncIntervalMinutes: number; // 0 disables periodic sync
+  };
+  priceCatalog: {
+    maxAgeDays: number; // Reuse catalog prices seen within this many days instead of scraping; 0 always scrapes
+  };
+  priceFetcher: {
+    concurrency: number; // Product pages loaded at the same time
+    minIntervalMs: number; // Minimum gap between requests to the same storefront (plus up to as much again at random)
+    timeoutMs: number; // Page load timeout
+    retries: number; // Retries after a failed page load, with exponential backoff
+  };
+  allocation: {
+    shipping: AllocationStrategy;
+    discounts: AllocationStrategy;
+    giftCard: AllocationStrategy;
+    tax: AllocationStrategy;
+  };
+  review: {
+    rules: ReviewRule[]; // Orders matching any rule wait for review instead of posting
+    amountThreshold?: number; // Orders above this grand total (order currency) wait for review
+  };
 }
 
 export interface EmailWebhookPayload {
@@ -60,4 +212,270 @@ export interface EmailWebhookPayload {
   to: string;
   subject: string;
   headers?: Record<string, string>;
+  messageId?: string; // Message-ID header without angle brackets, when known
+}
+
+export interface CategoryRule {
+  category: string; // Category ID, name, or "Group: Name"
+  keywords?: string[]; // Any keyword found in the item name (case-insensitive)
+  pattern?: string; // Regular expression tested against the item name (case-insensitive)
+  asins?: string[];
+  minPrice?: number; // Price per unit
+  maxPrice?: number;
+  minQuantity?: number;
+  maxQuantity?: number;
+}
+
+export interface CategoryRulesConfig {
+  defaultCategory?: string;
+  rules: CategoryRule[];
+}
+
+export interface YNABCategory {
+  id: string;
+  name: string;
+  groupName: string;
+}
+
+/** A group of items taxed at a special rate, matched like category rules */
+export interface TaxClass {
+  name: string;
+  keywords?: string[];
+  pattern?: string;
+  asins?: string[];
+}
+
+export interface TaxRates {
+  rate?: number; // Rate for items without a special class (defaults to DEFAULT_TAX_RATE)
+  classRates?: Record<string, number>; // Tax class name -> rate (0 = exempt)
+}
+
+export interface TaxJurisdiction extends TaxRates {
+  name: string;
+  match: string[]; // State codes or names found in the delivery address, e.g. ["TN", "Tennessee"]
+}
+
+export interface TaxRulesConfig {
+  classes?: TaxClass[];
+  jurisdictions?: TaxJurisdiction[];
+  default?: TaxRates; // Used when no jurisdiction matches the delivery address
+}
+
+export interface TaxReport {
+  jurisdiction?: string;
+  source: 'email' | 'implied' | 'estimated'; // Email tax line, grand total remainder, or rates
+  tax: Money; // Tax allocated to the items
+  estimatedTax: Money; // Tax expected from the configured rates
+  discrepancy: Money; // tax - estimatedTax
+}
+
+export interface TaxCalculation {
+  items: ItemWithTax[];
+  report: TaxReport;
+}
+
+export interface CurrencyConversion {
+  from: string; // ISO 4217 code of the order
+  to: string; // ISO 4217 code of the budget
+  rate: number; // Units of `to` per unit of `from`
+}
+
+export interface ExchangeRateProvider {
+  getRate(from: string, to: string, date?: Date): Promise<number>;
+}
+
+/** Messages added to the mailbox since a history ID */
+export interface GmailHistory {
+  messageIds: string[];
+  historyId: string; // The mailbox's current history ID
+}
+
+export interface GmailClient {
+  listNewMessages(startHistoryId: string, labelId?: string): Promise<GmailHistory>;
+  getRawMessage(messageId: string): Promise<Buffer>; // The full RFC 822 message
+}
+
+export interface LedgerItem {
+  name: string;
+  asin?: string;
+  quantity?: number;
+  amount?: number; // Item total including tax, when known
+  importId: string; // import_id of the YNAB transaction this item was posted in
+  cancelled?: boolean;
+  chargedAt?: string; // YYYY-MM-DD, set when a shipment email charged the item
+}
+
+export interface LedgerEntry {
+  orderNumber: string;
+  budgetId?: string; // Budget and account the order was posted to (default when absent)
+  accountId?: string;
+  grandTotal: number; // In the order currency
+  conversion?: CurrencyConversion; // Set when amounts were converted to the budget currency
+  orderDate?: string; // ISO timestamp of when the order was placed
+  transactionIds: string[];
+  importIds: string[]; // Same order as transactionIds
+  matchedTransactionIds?: string[]; // Existing transactions that were updated rather than created
+  items?: LedgerItem[];
+  createdAt: string; // ISO timestamp
+  updatedAt?: string; // ISO timestamp
+  cancelledAt?: string; // ISO timestamp, set when the whole order was cancelled
+  shipDate?: string; // YYYY-MM-DD, set when transaction dates were moved to the ship date
+  shipments?: number; // Shipments posted as their own transactions
+  revisions?: number; // Transactions re-posted after cancellations and shipments
 }
+
+export interface CreatedTransaction {
+  transactionId: string;
+  importId: string;
+}
+
+export interface LearnedCategory {
+  name: string;
+  asin?: string;
+  categoryId: string;
+  updatedAt: string; // ISO timestamp
+}
+
+export type PriceSource = 'email' | 'scraped';
+
+export interface PricePoint {
+  price: number; // Unit price in the currency below
+  currency?: string; // ISO 4217 code
+  source: PriceSource;
+  orderNumber?: string; // Order the price was seen for
+  recordedAt: string; // ISO timestamp
+}
+
+/** What we know about a product, keyed by its ASIN */
+export interface CatalogEntry {
+  asin: string;
+  title: string;
+  price: number; // Last known unit price
+  currency?: string;
+  source: PriceSource;
+  updatedAt: string; // ISO timestamp
+  history: PricePoint[]; // Oldest first
+}
+
+export interface CategorySuggestion {
+  categoryId: string;
+  confidence: number; // 0..1
+  source: 'asin' | 'name';
+  matchedName: string;
+}
+
+export interface RefundLedgerEntry {
+  orderNumber: string;
+  importId: string;
+  transactionId: string;
+  amount: number;
+  createdAt: string; // ISO timestamp
+}
+
+/** An email that was processed, keyed by its Message-ID */
+export interface MessageLedgerEntry {
+  messageId: string;
+  orderNumber?: string;
+  status: ProcessStatus;
+  createdAt: string; // ISO timestamp
+}
+
+export type ProcessStatus = 'success' | 'pending' | 'duplicate' | 'ignored' | 'error';
+
+export interface ProcessResult {
+  success: boolean;
+  status: ProcessStatus;
+  message: string;
+  orderNumber?: string;
+  transactionIds?: string[];
+  importIds?: string[];
+  items?: LedgerItem[];
+  tax?: TaxReport;
+  dryRun?: boolean; // Nothing was posted to YNAB or recorded
+  reviewReasons?: string[]; // Why the order waits (or, in a dry run, would wait) for review
+  transactions?: YNABTransactionInput[]; // In a dry run, the transactions that would be created
+}
+
+export interface ProcessOptions {
+  dryRun?: boolean; // Plan the transactions without posting them (defaults to DRY_RUN)
+  to?: string; // Recipient and sender of the email, used to route the order
+  from?: string;
+}
+
+/**
+ * When an order waits for review instead of posting: every order, a consolidated
+ * fallback, prices scraped from product pages, tax that differs from the expected
+ * rate, summary lines that don't add up to the grand total, or uncategorized items
+ */
+export type ReviewRule = 'all' | 'fallback' | 'fetched-prices' | 'tax-mismatch' | 'total-mismatch' | 'uncategorized';
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/** An order's planned transactions, held until they are approved or rejected */
+export interface ReviewEntry {
+  orderNumber: string;
+  status: ReviewStatus;
+  reasons: string[];
+  transactions: YNABTransactionInput[]; // Posted as-is (after edits) on approval
+  ledger: Omit<LedgerEntry, 'transactionIds' | 'importIds' | 'createdAt' | 'updatedAt'>; // Recorded on approval
+  transactionIds?: string[]; // Set on approval
+  posted?: CreatedTransaction[]; // Posted by an approval that failed part-way; not posted again
+  error?: string; // Why the last approval failed
+  createdAt: string; // ISO timestamp
+  updatedAt?: string; // ISO timestamp
+}
+
+/** Changes to a pending review's transactions, by position */
+export interface ReviewEdit {
+  transactions: Array<{
+    amount?: number; // In milliunits
+    payee_name?: string;
+    memo?: string;
+    category_id?: string | null; // null clears the category
+    date?: string; // YYYY-MM-DD
+    matchedTransactionId?: string | null; // Existing transaction to update; null creates a new one
+    subtransactions?: Array<{
+      amount?: number;
+      memo?: string;
+      category_id?: string | null;
+    }>;
+  }>;
+}
+
+/** A budget and account transactions can be posted to */
+export interface YNABRoute {
+  name: string;
+  budgetId: string;
+  accountId: string;
+  giftCardAccountId?: string; // Accounts in the same budget for gift card and reward points payments
+  rewardPointsAccountId?: string;
+}
+
+/**
+ * Conditions an order must meet to use a route. Every listed condition must hold;
+ * each matches when any of its values does (case-insensitive, as a substring except
+ * for paymentLast4).
+ */
+export interface RouteMatch {
+  to?: string[]; // Address the email was sent or forwarded to
+  from?: string[];
+  paymentLast4?: string[];
+  deliveryAddress?: string[];
+  amazonAccount?: string[];
+}
+
+export interface RouteRule {
+  name: string;
+  budgetId?: string; // Defaults to YNAB_BUDGET_ID
+  accountId: string;
+  giftCardAccountId?: string; // Default to YNAB_GIFT_CARD_ACCOUNT_ID / YNAB_REWARD_POINTS_ACCOUNT_ID
+  rewardPointsAccountId?: string; // in the default budget
+  match: RouteMatch;
+}
+
+export interface RoutesConfig {
+  routes: RouteRule[];
+}
+
+/** What an order is routed by */
+export type RouteContext = { [K in keyof RouteMatch]?: string };
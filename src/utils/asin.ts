@@ -0,0 +1,18 @@
+/**
+ * Extract the 10-character ASIN from an Amazon product URL.
+ * Handles /dp/, /gp/product/ and gp/r.html redirect links.
+ */
+export function extractAsin(url: string): string | null {
+  // If it's a redirect URL, extract the actual URL
+  if (url.includes('/gp/r.html')) {
+    const match = url.match(/U=([^&]+)/);
+    if (match) {
+      url = decodeURIComponent(match[1]);
+    }
+  }
+
+  const asinMatch = url.match(/\/dp\/([A-Z0-9]{10})/i) ||
+                   url.match(/\/gp\/product\/([A-Z0-9]{10})/i);
+
+  return asinMatch ? asinMatch[1].toUpperCase() : null;
+}
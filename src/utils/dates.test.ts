@@ -0,0 +1,52 @@
+import { dateOnDay, formatDate, parseDate } from './dates';
+
+describe('formatDate', () => {
+  const lateEvening = new Date('2024-03-03T23:30:00Z');
+
+  it.each([
+    ['UTC', '2024-03-03'],
+    ['America/Los_Angeles', '2024-03-03'],
+    ['Europe/Berlin', '2024-03-04'],
+    ['Asia/Tokyo', '2024-03-04'],
+  ])('formats the calendar day in %s', (timeZone, day) => {
+    expect(formatDate(lateEvening, timeZone)).toBe(day);
+  });
+
+  it('uses the day before UTC for early UTC hours west of Greenwich', () => {
+    expect(formatDate(new Date('2024-01-01T04:30:00Z'), 'America/New_York')).toBe('2023-12-31');
+  });
+});
+
+describe('dateOnDay', () => {
+  it.each(['UTC', 'America/Los_Angeles', 'Europe/Berlin', 'Pacific/Auckland', 'Pacific/Kiritimati'])(
+    'stays on the same day when formatted again in %s',
+    (timeZone) => {
+      // 10 March and 31 March are DST changes in the US and Europe
+      for (const [month, day] of [[0, 1], [2, 10], [2, 31], [9, 27], [11, 31]]) {
+        const date = dateOnDay(2024, month, day, timeZone);
+        expect(formatDate(date, timeZone)).toBe(
+          `2024-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+        );
+      }
+    }
+  );
+});
+
+describe('parseDate', () => {
+  it.each([
+    'March 3, 2024',
+    'Sunday, 3 March 2024',
+    '3. März 2024',
+    '3 mars 2024',
+    '3 de marzo de 2024',
+    '03.03.2024',
+    '2024-03-03',
+  ])('parses "%s" as the calendar day in the given timezone', (text) => {
+    expect(formatDate(parseDate(text, 'Europe/Berlin')!, 'Europe/Berlin')).toBe('2024-03-03');
+    expect(formatDate(parseDate(text, 'America/Los_Angeles')!, 'America/Los_Angeles')).toBe('2024-03-03');
+  });
+
+  it.each(['No date here', '2024', '45.13.2024', 'March 2024'])('rejects "%s"', (text) => {
+    expect(parseDate(text, 'UTC')).toBeNull();
+  });
+});
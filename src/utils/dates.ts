@@ -0,0 +1,85 @@
+import { config } from '../config';
+
+/** Month names of the supported storefront languages, mapped to a 0-based month */
+const MONTHS: Record<string, number> = {};
+[
+  ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+  ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+  ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+  ['gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno', 'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre'],
+  ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+].forEach((names) => names.forEach((name, month) => (MONTHS[name] = month)));
+MONTHS.sept = 8;
+
+/**
+ * Format a date as YYYY-MM-DD in the given timezone (defaults to the configured one),
+ * so the calendar day does not depend on the server clock's timezone
+ */
+export function formatDate(date: Date, timeZone: string = config.timezone): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Get the instant at noon of a calendar day in the given timezone. Noon keeps the
+ * day stable when it is formatted again in that timezone.
+ */
+export function dateOnDay(
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string = config.timezone
+): Date {
+  const noonUtc = Date.UTC(year, month, day, 12);
+  const local = new Date(new Date(noonUtc).toLocaleString('en-US', { timeZone }));
+  const utc = new Date(new Date(noonUtc).toLocaleString('en-US', { timeZone: 'UTC' }));
+  return new Date(noonUtc - (local.getTime() - utc.getTime()));
+}
+
+/**
+ * Parse a calendar date written in an email, e.g. "March 3, 2024", "Sunday, 3 March 2024",
+ * "3. März 2024", "3 de marzo de 2024", "03.03.2024" or "2024-03-03"
+ */
+export function parseDate(text: string, timeZone: string = config.timezone): Date | null {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    return validDay(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10), timeZone);
+  }
+
+  // Storefronts using a numeric format put the day first
+  const numeric = text.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b/);
+  if (numeric) {
+    return validDay(parseInt(numeric[3], 10), parseInt(numeric[2], 10) - 1, parseInt(numeric[1], 10), timeZone);
+  }
+
+  const tokens = text.toLowerCase().match(/[a-zà-ÿ]+|\d+/g) || [];
+  const monthIndex = tokens.findIndex((token) => token in MONTHS);
+  if (monthIndex < 0) {
+    return null;
+  }
+
+  const year = tokens.find((token) => /^\d{4}$/.test(token));
+  // The day is written next to the month name, before it or after it
+  const day = [tokens[monthIndex - 1], tokens[monthIndex + 1], tokens[monthIndex - 2]].find(
+    (token) => token !== undefined && /^\d{1,2}$/.test(token)
+  );
+  if (!year || !day) {
+    return null;
+  }
+
+  return validDay(parseInt(year, 10), MONTHS[tokens[monthIndex]], parseInt(day, 10), timeZone);
+}
+
+function validDay(year: number, month: number, day: number, timeZone: string): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) {
+    return null;
+  }
+  return dateOnDay(year, month, day, timeZone);
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import logger from './logger';
+
+/**
+ * Minimal persistent store that keeps a JSON document on disk.
+ *
+ * Reads and writes are synchronous so that a read-modify-write cycle cannot
+ * interleave with another request handler.
+ */
+export class JsonFileStore<T> {
+  private data: T | null = null;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly defaultValue: () => T
+  ) {}
+
+  /**
+   * Get the current document, loading it from disk on first access
+   */
+  read(): T {
+    if (this.data === null) {
+      this.data = this.load();
+    }
+    return this.data;
+  }
+
+  /**
+   * Apply a change to the document and persist it
+   */
+  update(mutator: (data: T) => void): T {
+    const data = this.read();
+    mutator(data);
+    this.save(data);
+    return data;
+  }
+
+  /**
+   * Load the document from disk, falling back to the default if missing
+   */
+  private load(): T {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return this.defaultValue();
+      }
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      logger.error(`Error reading store ${this.filePath}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write the document atomically (write to a temp file, then rename)
+   */
+  private save(data: T): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
@@ -16,16 +16,35 @@ const logger = winston.createLogger({
   ],
 });
 
+const consoleFormat = winston.format.combine(
+  winston.format.colorize(),
+  winston.format.simple()
+);
+
 // If we're not in production, log to the console as well
 if (config.nodeEnv !== 'production') {
   logger.add(
     new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.colorize(),
-        winston.format.simple()
-      ),
+      format: consoleFormat,
+    })
+  );
+}
+
+/**
+ * Log to stderr instead of stdout, so command output on stdout stays clean (used by the CLI)
+ */
+export function logToStderr(level: string = config.logLevel): void {
+  logger.transports
+    .filter((transport) => transport instanceof winston.transports.Console)
+    .forEach((transport) => logger.remove(transport));
+
+  logger.add(
+    new winston.transports.Console({
+      format: consoleFormat,
+      stderrLevels: Object.keys(winston.config.npm.levels),
     })
   );
+  logger.level = level;
 }
 
 export default logger;
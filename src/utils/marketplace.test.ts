@@ -0,0 +1,56 @@
+import { detectMarketplace, normalizeAmount, parseAmount, parseMoney } from './marketplace';
+
+describe('normalizeAmount', () => {
+  it.each([
+    ['12.34', 12.34],
+    ['12,34', 12.34],
+    ['1,234.56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['1 234,56', 1234.56],
+    ['1 234,56', 1234.56],
+    ['1,234,567.89', 1234567.89],
+  ])('reads "%s" as %d', (text, amount) => {
+    expect(normalizeAmount(text)).toBe(amount);
+  });
+});
+
+describe('parseAmount', () => {
+  it.each([
+    ['Order Total: $1,234.56', 1234.56],
+    ['Gesamtsumme: EUR 1.234,56', 1234.56],
+    ['Montant total : 1 234,56 €', 1234.56],
+    ['Totale ordine: 12,34 €', 12.34],
+    ['Order Total: £9.99', 9.99],
+    ['Total: CDN$ 45.00', 45],
+  ])('parses "%s"', (text, amount) => {
+    expect(parseAmount(text)).toBe(amount);
+  });
+
+  it('needs a currency unless told otherwise', () => {
+    expect(parseAmount('Total: 12,34')).toBeNull();
+    expect(parseAmount('Total: 12,34', false)).toBe(12.34);
+  });
+
+  it('ignores numbers without two decimals', () => {
+    expect(parseAmount('Quantity: 2', false)).toBeNull();
+  });
+});
+
+describe('parseMoney', () => {
+  it('parses a localized amount as exact money', () => {
+    expect(parseMoney('Gesamtsumme: 1.234,56 €')?.milliunits).toBe(1234560);
+  });
+});
+
+describe('detectMarketplace', () => {
+  it('uses the first source that mentions a supported storefront', () => {
+    expect(detectMarketplace('bestellbestaetigung@amazon.de', 'https://www.amazon.com/')).toMatchObject({
+      domain: 'amazon.de',
+      currency: 'EUR',
+    });
+  });
+
+  it('falls back to amazon.com', () => {
+    expect(detectMarketplace('orders@example.com').domain).toBe('amazon.com');
+  });
+});
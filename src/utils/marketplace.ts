@@ -0,0 +1,147 @@
+import { Marketplace } from '../types';
+import { Money } from './money';
+
+const ENGLISH_TOTAL_LABELS = ['Grand Total', 'Order Total', 'Total for this order'];
+
+/**
+ * Supported Amazon storefronts. The first entry is the default.
+ */
+export const MARKETPLACES: Marketplace[] = [
+  { domain: 'amazon.com', currency: 'USD', grandTotalLabels: ENGLISH_TOTAL_LABELS },
+  { domain: 'amazon.co.uk', currency: 'GBP', grandTotalLabels: ENGLISH_TOTAL_LABELS },
+  {
+    domain: 'amazon.ca',
+    currency: 'CAD',
+    grandTotalLabels: [...ENGLISH_TOTAL_LABELS, 'Total de la commande', 'Montant total'],
+  },
+  {
+    domain: 'amazon.de',
+    currency: 'EUR',
+    grandTotalLabels: ['Gesamtsumme', 'Gesamtbetrag', 'Summe der Bestellung'],
+  },
+  {
+    domain: 'amazon.fr',
+    currency: 'EUR',
+    grandTotalLabels: ['Montant total', 'Total de la commande', 'Total TTC'],
+  },
+  {
+    domain: 'amazon.it',
+    currency: 'EUR',
+    grandTotalLabels: ['Totale ordine', 'Importo totale', 'Totale complessivo'],
+  },
+  {
+    domain: 'amazon.es',
+    currency: 'EUR',
+    grandTotalLabels: ['Total del pedido', 'Importe total'],
+  },
+];
+
+export const DEFAULT_MARKETPLACE = MARKETPLACES[0];
+
+/** Localized "Quantity" labels used next to order items */
+export const QUANTITY_PATTERN = /(?:Quantity|Qty|Menge|Anzahl|Quantité|Quantità|Cantidad)\s*:\s*(\d+)/i;
+
+// An amount with exactly two decimals, in either 1,234.56 or 1.234,56 style
+const AMOUNT = String.raw`\d{1,3}(?:[.,\u00a0\u202f]\d{3})+[.,]\d{2}|\d+[.,]\d{2}`;
+const CURRENCY = String.raw`(?:US\$|CA\$|CDN\$|C\$|[$£€]|USD|CAD|GBP|EUR)`;
+
+/** A currency amount with its symbol before or after it, e.g. "$1,234.56" or "1.234,56 €" */
+export const MONEY_PATTERN = new RegExp(
+  `${CURRENCY}\\s*(${AMOUNT})|(${AMOUNT})\\s*${CURRENCY}`
+);
+
+const BARE_AMOUNT_PATTERN = new RegExp(`(${AMOUNT})`);
+
+const DOMAIN_PATTERN = /amazon\.((?:com?\.)?[a-z]{2,3})\b/gi;
+
+/**
+ * Look up a marketplace by its domain (e.g. "amazon.de")
+ */
+export function getMarketplace(domain: string): Marketplace | undefined {
+  return MARKETPLACES.find((marketplace) => marketplace.domain === domain.toLowerCase());
+}
+
+/**
+ * Detect the storefront from the given sources (sender address, links, body), in order.
+ * The first source mentioning a supported Amazon domain wins; within a source the most
+ * frequently mentioned domain wins. Falls back to amazon.com.
+ */
+export function detectMarketplace(...sources: string[]): Marketplace {
+  for (const source of sources) {
+    const counts = new Map<Marketplace, number>();
+    for (const match of source.matchAll(DOMAIN_PATTERN)) {
+      const marketplace = getMarketplace(`amazon.${match[1]}`);
+      if (marketplace) {
+        counts.set(marketplace, (counts.get(marketplace) || 0) + 1);
+      }
+    }
+
+    const best = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (best) {
+      return best[0];
+    }
+  }
+
+  return DEFAULT_MARKETPLACE;
+}
+
+/**
+ * Check whether text mentions any supported Amazon domain
+ */
+export function isAmazonDomain(text: string): boolean {
+  for (const match of text.matchAll(DOMAIN_PATTERN)) {
+    if (getMarketplace(`amazon.${match[1]}`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Parse the first currency amount in the text. With requireCurrency=false, a bare
+ * number with two decimals is accepted too.
+ */
+export function parseAmount(text: string, requireCurrency: boolean = true): number | null {
+  const match = text.match(MONEY_PATTERN);
+  if (match) {
+    return normalizeAmount(match[1] || match[2]);
+  }
+
+  if (!requireCurrency) {
+    const bare = text.match(BARE_AMOUNT_PATTERN);
+    if (bare) {
+      return normalizeAmount(bare[1]);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse the first currency amount in the text as exact Money
+ */
+export function parseMoney(text: string, requireCurrency: boolean = true): Money | null {
+  const amount = parseAmount(text, requireCurrency);
+  return amount === null ? null : Money.fromDecimal(amount);
+}
+
+/**
+ * Convert a localized amount ("1,234.56" or "1.234,56") to a number.
+ * The last separator is the decimal point; any others are thousands separators.
+ */
+export function normalizeAmount(amount: string): number {
+  const decimalIndex = Math.max(amount.lastIndexOf('.'), amount.lastIndexOf(','));
+  if (decimalIndex < 0) {
+    return parseFloat(amount.replace(/[^\d]/g, ''));
+  }
+  const integer = amount.substring(0, decimalIndex).replace(/[^\d]/g, '');
+  const fraction = amount.substring(decimalIndex + 1).replace(/[^\d]/g, '');
+  return parseFloat(`${integer || '0'}.${fraction}`);
+}
+
+/**
+ * Build the canonical product page URL for an ASIN on a marketplace
+ */
+export function productPageUrl(asin: string, marketplace: Marketplace = DEFAULT_MARKETPLACE): string {
+  return `https://www.${marketplace.domain}/dp/${asin}`;
+}
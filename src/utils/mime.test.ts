@@ -0,0 +1,120 @@
+import { isMbox, parseMimeMessage, splitMbox } from './mime';
+
+const crlf = (lines: string[]) => lines.join('\r\n');
+
+describe('splitMbox', () => {
+  const mbox = [
+    'From 1789@xxx Wed Jan 03 12:34:56 +0000 2024',
+    'Subject: First',
+    '',
+    'From the desk of Amazon.com:',
+    '>From here on, quoted.',
+    '',
+    'From 1790@xxx Thu Jan  4 08:00:00 2024',
+    'Subject: Second',
+    '',
+    'Thanks for your order.',
+    '',
+  ].join('\n');
+
+  it('recognizes an mbox file', () => {
+    expect(isMbox(mbox)).toBe(true);
+    expect(isMbox('Subject: Hello\n\nBody')).toBe(false);
+  });
+
+  it('splits only on separator lines and unquotes ">From " lines', () => {
+    const messages = splitMbox(Buffer.from(mbox, 'latin1')).map((message) => parseMimeMessage(message));
+
+    expect(messages.map((message) => message.subject)).toEqual(['First', 'Second']);
+    expect(messages[0].text).toBe('From the desk of Amazon.com:\nFrom here on, quoted.\n');
+  });
+
+  it('keeps a body line starting with "From " after a blank line in its message', () => {
+    const messages = splitMbox('From a@b Mon Feb  5 09:10:11 2024\nSubject: One\n\nHi\n\nFrom Amazon, with love\n');
+
+    expect(messages).toHaveLength(1);
+    expect(parseMimeMessage(messages[0]).text).toContain('From Amazon, with love');
+  });
+});
+
+describe('parseMimeMessage', () => {
+  it('decodes quoted-printable and base64 bodies with their charsets', () => {
+    const raw = crlf([
+      'Subject: Order',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=iso-8859-1',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Gr=FC=DFe, total =',
+      '12,34 EUR',
+      '--b1',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('<p>Total: 12,34 €</p>', 'utf-8').toString('base64'),
+      '--b1--',
+    ]);
+
+    const message = parseMimeMessage(raw);
+
+    expect(message.text).toBe('Grüße, total 12,34 EUR');
+    expect(message.html).toBe('<p>Total: 12,34 €</p>');
+  });
+
+  it('finds bodies in nested multiparts and skips attachments', () => {
+    const raw = crlf([
+      'Subject: Nested',
+      'Content-Type: multipart/mixed; boundary=outer',
+      '',
+      'Preamble',
+      '--outer',
+      'Content-Type: text/plain',
+      'Content-Disposition: attachment; filename="invoice.txt"',
+      '',
+      'Not the body',
+      '--outer',
+      'Content-Type: multipart/related; boundary="inner"',
+      '',
+      '--inner',
+      'Content-Type: multipart/alternative; boundary="innermost"',
+      '',
+      '--innermost',
+      'Content-Type: text/plain',
+      '',
+      'Plain body',
+      '--innermost',
+      'Content-Type: text/html',
+      '',
+      '<b>HTML body</b>',
+      '--innermost--',
+      '--inner--',
+      '--outer--',
+      'Epilogue',
+    ]);
+
+    const message = parseMimeMessage(raw);
+
+    expect(message.text).toBe('Plain body');
+    expect(message.html).toBe('<b>HTML body</b>');
+  });
+
+  it('decodes RFC 2047 encoded headers and strips the Message-ID brackets', () => {
+    const raw = crlf([
+      'From: =?UTF-8?Q?Amazon=2Ede?= <bestellbestaetigung@amazon.de>',
+      'Subject: =?UTF-8?B?QmVzdGVsbHQ6ICJMYWRla2FiZWwi?=',
+      '  =?UTF-8?Q?_f=C3=BCr_Sie?=',
+      'Message-ID: <abc@amazon.de>',
+      '',
+      'Body',
+    ]);
+
+    const message = parseMimeMessage(raw);
+
+    expect(message.from).toBe('Amazon.de <bestellbestaetigung@amazon.de>');
+    expect(message.subject).toBe('Bestellt: "Ladekabel" für Sie');
+    expect(message.messageId).toBe('abc@amazon.de');
+    expect(message.text).toBe('Body');
+  });
+});
@@ -0,0 +1,239 @@
+import { EmailWebhookPayload } from '../types';
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string; // Raw bytes, one character per byte (latin1)
+}
+
+interface ContentType {
+  type: string; // Lowercase, e.g. "text/html"
+  params: Record<string, string>; // Lowercase parameter names
+}
+
+// An mbox separator: "From <sender> <asctime date>" at the start of the file or
+// after a blank line (which belongs to the separator, not the message), e.g. "From 1789@xxx Wed Jan 03 12:34:56 +0000 2024".
+// A body line that merely starts with "From " doesn't match.
+const MBOX_SEPARATOR =
+  /(?:^|(?<=\n)\r?\n)From \S+ +(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun) (?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) +\d{1,2} \d{1,2}:\d{2}(?::\d{2})?\b.*\d{4}[ \t]*\r?\n/;
+
+/**
+ * Parse a raw RFC 822 / MIME message (e.g. an .eml file or a Gmail "raw" message)
+ * into the same shape as a webhook payload, using the first HTML and plain-text
+ * parts that are not attachments
+ */
+export function parseMimeMessage(raw: Buffer | string): EmailWebhookPayload {
+  const bytes = typeof raw === 'string' ? Buffer.from(raw, 'utf-8') : raw;
+  const message = splitPart(bytes.toString('latin1'));
+
+  const bodies: { html?: string; text?: string } = {};
+  collectBodies(message, bodies);
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(message.headers)) {
+    headers[name] = decodeHeaderValue(value);
+  }
+
+  return {
+    html: bodies.html || '',
+    text: bodies.text || '',
+    from: getHeader(headers, 'from') || '',
+    to: getHeader(headers, 'to') || '',
+    subject: getHeader(headers, 'subject') || '',
+    headers,
+    messageId: getMessageId(headers),
+  };
+}
+
+/**
+ * Check whether content is an mbox file (messages separated by "From " lines)
+ * rather than a single message
+ */
+export function isMbox(raw: Buffer | string): boolean {
+  const start = typeof raw === 'string' ? raw.substring(0, 5) : raw.subarray(0, 5).toString('latin1');
+  return start === 'From ';
+}
+
+/**
+ * Split an mbox file into its raw messages, undoing ">From " quoting.
+ * Messages are only split on well-formed separator lines.
+ */
+export function splitMbox(raw: Buffer | string): Buffer[] {
+  const content = typeof raw === 'string' ? raw : raw.toString('latin1');
+  const encoding = typeof raw === 'string' ? 'utf-8' : 'latin1';
+
+  return content
+    .split(MBOX_SEPARATOR)
+    .filter((message) => message.trim().length > 0)
+    .map((message) => Buffer.from(message.replace(/^>(>*From )/gm, '$1'), encoding));
+}
+
+/**
+ * Look up a header case-insensitively
+ */
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Get the Message-ID header without its angle brackets
+ */
+export function getMessageId(headers: Record<string, string>): string | undefined {
+  return getHeader(headers, 'message-id')?.replace(/^<|>$/g, '').trim() || undefined;
+}
+
+/**
+ * Split a part into its headers and body. Folded header lines are unfolded;
+ * the first occurrence of a repeated header wins.
+ */
+function splitPart(raw: string): MimePart {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerBlock = match ? raw.substring(0, match.index) : raw;
+  const body = match ? raw.substring(match.index! + match[0].length) : '';
+
+  const headers: Record<string, string> = {};
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      const name = line.substring(0, separator).trim();
+      if (getHeader(headers, name) === undefined) {
+        headers[name] = line.substring(separator + 1).trim();
+      }
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Walk the part tree and keep the first inline HTML and plain-text bodies
+ */
+function collectBodies(part: MimePart, bodies: { html?: string; text?: string }): void {
+  const contentType = parseContentType(getHeader(part.headers, 'content-type'));
+  const disposition = (getHeader(part.headers, 'content-disposition') || '').toLowerCase();
+
+  if (contentType.type.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) return;
+    for (const child of splitMultipart(part.body, boundary)) {
+      collectBodies(splitPart(child), bodies);
+    }
+    return;
+  }
+
+  if (disposition.startsWith('attachment')) {
+    return;
+  }
+
+  if (contentType.type === 'text/html' && bodies.html === undefined) {
+    bodies.html = decodeBody(part, contentType);
+  } else if (contentType.type === 'text/plain' && bodies.text === undefined) {
+    bodies.text = decodeBody(part, contentType);
+  }
+}
+
+/**
+ * Get the parts between the boundary delimiters, ignoring the preamble and epilogue
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  const lines = body.split(/\r?\n/);
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `--${boundary}--`) {
+      break;
+    }
+    if (trimmed === `--${boundary}`) {
+      if (current) parts.push(current.join('\r\n'));
+      current = [];
+      continue;
+    }
+    current?.push(line);
+  }
+
+  if (current) parts.push(current.join('\r\n'));
+  return parts;
+}
+
+/**
+ * Parse a Content-Type header. Messages without one are plain text.
+ */
+function parseContentType(value: string | undefined): ContentType {
+  if (!value) {
+    return { type: 'text/plain', params: {} };
+  }
+
+  const [type, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const separator = param.indexOf('=');
+    if (separator > 0) {
+      const name = param.substring(0, separator).trim().toLowerCase();
+      params[name] = param.substring(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+    }
+  }
+
+  return { type: type.trim().toLowerCase(), params };
+}
+
+/**
+ * Undo the transfer encoding of a body and decode it with its charset
+ */
+function decodeBody(part: MimePart, contentType: ContentType): string {
+  const encoding = (getHeader(part.headers, 'content-transfer-encoding') || '').trim().toLowerCase();
+
+  let bytes: Buffer;
+  if (encoding === 'base64') {
+    bytes = Buffer.from(part.body.replace(/\s+/g, ''), 'base64');
+  } else if (encoding === 'quoted-printable') {
+    bytes = decodeQuotedPrintable(part.body);
+  } else {
+    bytes = Buffer.from(part.body, 'latin1');
+  }
+
+  return decodeCharset(bytes, contentType.params.charset);
+}
+
+function decodeQuotedPrintable(body: string): Buffer {
+  const unwrapped = body.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped.substring(i + 1, i + 3);
+    if (unwrapped[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode bytes with the named charset, falling back to UTF-8 for unknown charsets
+ */
+function decodeCharset(bytes: Buffer, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf-8');
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?UTF-8?B?...?=) and raw UTF-8 in a header value
+ */
+function decodeHeaderValue(value: string): string {
+  const decoded = Buffer.from(value, 'latin1').toString('utf-8');
+  return decoded
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(bytes, charset);
+    });
+}
@@ -0,0 +1,62 @@
+import fc from 'fast-check';
+import { Money } from './money';
+
+const amounts = fc.integer({ min: -100_000_000, max: 100_000_000 }).map(Money.fromMilliunits);
+const weightLists = fc.array(fc.double({ min: -1000, max: 1_000_000, noNaN: true }), {
+  minLength: 1,
+  maxLength: 20,
+});
+
+describe('Money', () => {
+  it('converts decimals to whole cents', () => {
+    expect(Money.fromDecimal(12.345).milliunits).toBe(12350);
+    expect(Money.fromDecimal(-0.1).add(Money.fromDecimal(-0.2)).format()).toBe('-0.30');
+  });
+
+  describe('allocate', () => {
+    it('splits in proportion to the weights', () => {
+      const parts = Money.fromDecimal(10).allocate([1, 1, 1]);
+      expect(parts.map((part) => part.format())).toEqual(['3.34', '3.33', '3.33']);
+    });
+
+    it('splits evenly when all weights are zero', () => {
+      const parts = Money.fromDecimal(-1).allocate([0, 0]);
+      expect(parts.map((part) => part.format())).toEqual(['-0.50', '-0.50']);
+    });
+
+    it('always sums exactly to the amount, for any sign and weights', () => {
+      fc.assert(
+        fc.property(amounts, weightLists, (amount, weights) => {
+          const parts = amount.allocate(weights);
+          expect(parts).toHaveLength(weights.length);
+          expect(Money.sum(parts).milliunits).toBe(amount.milliunits);
+        })
+      );
+    });
+
+    it('keeps whole-cent amounts in whole cents', () => {
+      const cents = fc.integer({ min: -10_000_000, max: 10_000_000 }).map((c) => Money.fromMilliunits(c * 10));
+      fc.assert(
+        fc.property(cents, weightLists, (amount, weights) => {
+          for (const part of amount.allocate(weights)) {
+            expect(Number.isInteger(part.milliunits / 10)).toBe(true);
+          }
+        })
+      );
+    });
+
+    it('keeps each part within one cent of its exact share', () => {
+      const cents = fc.integer({ min: -10_000_000, max: 10_000_000 }).map((c) => Money.fromMilliunits(c * 10));
+      const positiveWeights = fc.array(fc.integer({ min: 1, max: 1_000_000 }), { minLength: 1, maxLength: 20 });
+      fc.assert(
+        fc.property(cents, positiveWeights, (amount, weights) => {
+          const total = weights.reduce((sum, weight) => sum + weight, 0);
+          amount.allocate(weights).forEach((part, i) => {
+            const exact = (amount.milliunits * weights[i]) / total;
+            expect(Math.abs(part.milliunits - exact)).toBeLessThan(10);
+          });
+        })
+      );
+    });
+  });
+});
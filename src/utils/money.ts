@@ -0,0 +1,132 @@
+/** Milliunits per cent; amounts are allocated in whole cents */
+const CENT = 10;
+
+/**
+ * An exact amount of money, stored as integer milliunits (1/1000 of the currency unit,
+ * as used by the YNAB API). Instances are immutable.
+ */
+export class Money {
+  static readonly ZERO = new Money(0);
+
+  private constructor(public readonly milliunits: number) {}
+
+  /**
+   * Create from a decimal amount (e.g. 12.34), rounded to whole cents
+   */
+  static fromDecimal(amount: number): Money {
+    return new Money(Math.round(amount * 100) * CENT);
+  }
+
+  static fromMilliunits(milliunits: number): Money {
+    if (!Number.isInteger(milliunits)) {
+      throw new Error(`Milliunits must be an integer, got ${milliunits}`);
+    }
+    return new Money(milliunits);
+  }
+
+  /**
+   * Add up amounts
+   */
+  static sum(amounts: Money[]): Money {
+    return new Money(amounts.reduce((sum, amount) => sum + amount.milliunits, 0));
+  }
+
+  add(other: Money): Money {
+    return new Money(this.milliunits + other.milliunits);
+  }
+
+  subtract(other: Money): Money {
+    return new Money(this.milliunits - other.milliunits);
+  }
+
+  negate(): Money {
+    return new Money(-this.milliunits);
+  }
+
+  abs(): Money {
+    return new Money(Math.abs(this.milliunits));
+  }
+
+  /**
+   * Multiply by a factor (e.g. a tax or exchange rate), rounded to whole cents
+   */
+  multiply(factor: number): Money {
+    return new Money(Math.round((this.milliunits * factor) / CENT) * CENT);
+  }
+
+  min(other: Money): Money {
+    return this.milliunits <= other.milliunits ? this : other;
+  }
+
+  max(other: Money): Money {
+    return this.milliunits >= other.milliunits ? this : other;
+  }
+
+  isZero(): boolean {
+    return this.milliunits === 0;
+  }
+
+  isNegative(): boolean {
+    return this.milliunits < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.milliunits === other.milliunits;
+  }
+
+  /**
+   * Split into parts in proportion to the weights, in whole cents (or milliunits when
+   * the amount itself isn't whole cents). Uses largest-remainder rounding so the parts
+   * always sum exactly to this amount.
+   */
+  allocate(weights: number[]): Money[] {
+    if (weights.length === 0) return [];
+    const weightSum = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+    if (weightSum === 0) {
+      // Nothing to be proportional to - split evenly
+      return this.allocate(weights.map(() => 1));
+    }
+
+    const unit = this.milliunits % CENT === 0 ? CENT : 1;
+    const sign = this.milliunits < 0 ? -1 : 1;
+    const units = Math.abs(this.milliunits) / unit;
+    const exact = weights.map((weight) => (units * Math.max(weight, 0)) / weightSum);
+    const parts = exact.map((value) => Math.floor(value));
+
+    // Hand out the leftover units to the parts with the largest remainders
+    let remainder = units - parts.reduce((sum, part) => sum + part, 0);
+    const order = exact
+      .map((value, i) => ({ i, fraction: value - Math.floor(value) }))
+      .sort((a, b) => b.fraction - a.fraction);
+    for (let k = 0; remainder > 0; k = (k + 1) % order.length, remainder--) {
+      parts[order[k].i] += 1;
+    }
+
+    return parts.map((part) => new Money(part * unit * sign));
+  }
+
+  /**
+   * The amount as a decimal number (e.g. 12.34)
+   */
+  toDecimal(): number {
+    return this.milliunits / 1000;
+  }
+
+  /**
+   * Format with two decimals (e.g. "12.34" or "-5.00")
+   */
+  format(): string {
+    return this.toDecimal().toFixed(2);
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  /**
+   * Serialize as a decimal number in API responses
+   */
+  toJSON(): number {
+    return this.toDecimal();
+  }
+}
@@ -1,25 +1,28 @@
 /**
  * Test script to verify email parsing works without YNAB credentials
- * Usage: npx ts-node test-parse-only.ts
+ * Usage: npx ts-node test-parse-only.ts [email.html | email.eml]
  */
 
 import * as fs from 'fs';
 import { emailParser } from './src/services/emailParser';
+import { parseMimeMessage } from './src/utils/mime';
 
 console.log('🧪 Testing Amazon Email Parser\n');
 
-// Read the sample email
-const html = fs.readFileSync('sample-amazon-email.html', 'utf-8');
+// Read the sample email: an HTML body, or a raw message (.eml) with headers and MIME parts
+const file = process.argv[2] || 'sample-amazon-email.html';
+const content = fs.readFileSync(file);
+const email = file.endsWith('.html') ? { html: content.toString('utf-8'), text: '', headers: undefined } : parseMimeMessage(content);
 
 try {
   // Parse the email
-  const result = emailParser.parseEmail(html, '');
+  const result = emailParser.parseEmail(email.html, email.text, email.headers);
 
   console.log('✅ Email parsed successfully!\n');
   console.log('📦 Order Details:');
   console.log('─────────────────────────────────────');
   console.log(`Order Number: ${result.order.orderNumber}`);
-  console.log(`Grand Total: $${result.order.grandTotal.toFixed(2)}`);
+  console.log(`Grand Total: $${result.order.grandTotal}`);
   console.log(`Number of Items: ${result.order.items.length}`);
   console.log();
 